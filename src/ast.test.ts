@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  parse,
+  print,
+  type ContentNode,
+  type ParseOptions,
+  type PlaceholderNode,
+} from "./index.js";
+
+/**
+ * Strips positions to compare the shape of a tree.
+ */
+function shape(nodes: ContentNode[]): unknown[] {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case "Text":
+        return node.value;
+      case "Escape":
+        return { escape: node.raw, value: node.value };
+      case "Placeholder":
+        return {
+          key: node.key,
+          ...(node.filters.length > 0 ? { filters: node.filters } : {}),
+          ...(node.operator ? { operator: node.operator } : {}),
+          ...(node.default
+            ? {
+                default: shape(node.default.body),
+                ...(node.default.quote ? { quote: node.default.quote } : {}),
+              }
+            : {}),
+        };
+    }
+  });
+}
+
+describe("parse", () => {
+  it("builds text, placeholder and default nodes with positions", () => {
+    const ast = parse("Hi ${NAME:Guest}!");
+    expect(ast).toMatchObject({ type: "Template", start: 0, end: 17 });
+    const [text, placeholder, bang] = ast.body;
+    expect(text).toEqual({
+      type: "Text",
+      value: "Hi ",
+      start: 0,
+      end: 3,
+      loc: { start: { line: 1, column: 0 }, end: { line: 1, column: 3 } },
+    });
+    expect(placeholder).toMatchObject({
+      type: "Placeholder",
+      open: "${",
+      close: "}",
+      key: "NAME",
+      keyStart: 5,
+      keyEnd: 9,
+      operator: ":",
+      start: 3,
+      end: 16,
+      default: {
+        type: "Default",
+        start: 10,
+        end: 15,
+        body: [{ type: "Text", value: "Guest", start: 10, end: 15 }],
+      },
+    });
+    expect(bang).toMatchObject({ type: "Text", value: "!", start: 16 });
+  });
+
+  it("reports lines and columns", () => {
+    const ast = parse("a\nb ${X}\n\n${Y}");
+    const [, x, , y] = ast.body;
+    expect(x.loc).toEqual({
+      start: { line: 2, column: 2 },
+      end: { line: 2, column: 6 },
+    });
+    expect(y.loc).toEqual({
+      start: { line: 4, column: 0 },
+      end: { line: 4, column: 4 },
+    });
+    expect(ast.loc.end).toEqual({ line: 4, column: 4 });
+  });
+
+  it("nests placeholders found in defaults", () => {
+    const ast = parse("${A:'${B:x} and ${C}'}");
+    expect(shape(ast.body)).toEqual([
+      {
+        key: "A",
+        operator: ":",
+        quote: "'",
+        default: [
+          { key: "B", operator: ":", default: ["x"] },
+          " and ",
+          { key: "C" },
+        ],
+      },
+    ]);
+    const inner = (ast.body[0] as PlaceholderNode).default
+      ?.body[0] as PlaceholderNode;
+    expect(inner).toMatchObject({ start: 5, end: 11, keyStart: 7 });
+  });
+
+  it("represents escapes", () => {
+    expect(shape(parse("\\${A} \\\\${B} \\\\\\${C}").body)).toEqual([
+      { escape: "\\${A}", value: "${A}" },
+      " ",
+      { escape: "\\\\", value: "\\" },
+      { key: "B" },
+      " ",
+      { escape: "\\\\\\${C}", value: "\\${C}" },
+    ]);
+    expect(shape(parse("\\${A}", { escape: false }).body)).toEqual([
+      "\\",
+      { key: "A" },
+    ]);
+  });
+
+  it("keeps placeholders with invalid names as text", () => {
+    expect(shape(parse("${not valid ${A}}").body)).toEqual([
+      "${not valid ",
+      { key: "A" },
+      "}",
+    ]);
+  });
+
+  it("follows the syntax options", () => {
+    expect(shape(parse("${A:-x} {{B}}", { posix: true }).body)).toEqual([
+      { key: "A", operator: ":-", default: ["x"] },
+      " {{B}}",
+    ]);
+    expect(shape(parse("{{B}} $C", { syntax: "mustache" }).body)).toEqual([
+      { key: "B" },
+      " $C",
+    ]);
+    expect(shape(parse("$C.", { syntax: "bare" }).body)).toEqual([
+      { key: "C" },
+      ".",
+    ]);
+    expect(
+      shape(parse("${ A | join(${B}, x) }", { filters: true }).body),
+    ).toEqual([{ key: "A", filters: [{ name: "join", args: ["${B}", "x"] }] }]);
+  });
+});
+
+describe("print", () => {
+  it.each<[string, ParseOptions?]>([
+    ["plain text"],
+    [""],
+    ["Hi ${NAME:Guest}!\nBye ${NAME}"],
+    ['${A:\'${B:x} and ${C}\'} ${D:"q"} ${E:"}'],
+    ["\\${A} \\\\${B} \\\\\\${C} \\\\"],
+    ["\\${A}", { escape: false }],
+    ["${not valid ${A}} ${ ${B:${} ${unclosed"],
+    ["${A:-x} ${B:?err} ${C+y} ${D:}", { posix: true }],
+    ["${ A | upper | join( ${B}, 'x,y' ) :def}", { filters: true }],
+    ["${PORT|number:80}", { coerce: true }],
+    ["{{A:{{B}}}} %C% $D", { syntax: "mustache" }],
+    ["$A.b $ $1", { syntax: "bare" }],
+    ["${@db.host} ${@bad..path}", { references: true }],
+  ])("round-trips %j", (template, options) => {
+    expect(print(parse(template, options))).toBe(template);
+  });
+
+  it("reflects changes to the tree", () => {
+    const ast = parse("${HOST:localhost}:${PORT}");
+    const [host, , port] = ast.body as PlaceholderNode[];
+    host.key = "DB_HOST";
+    port.operator = ":";
+    port.default = { ...host.default!, body: [] };
+    expect(print(ast)).toBe("${DB_HOST:localhost}:${PORT:}");
+    expect(print(host)).toBe("${DB_HOST:localhost}");
+  });
+});
@@ -0,0 +1,338 @@
+import type { FilterCall } from "./filters.js";
+import {
+  findNextPlaceholder,
+  nameValidator,
+  parsePlaceholder,
+  referencePath,
+  resolveSyntax,
+  type InterpolateOptions,
+} from "./interpolate.js";
+
+/**
+ * Options for {@link parse}. Only the syntax-related interpolation options are
+ * relevant; pass the ones you interpolate with.
+ */
+export type ParseOptions = Pick<
+  InterpolateOptions,
+  | "escape"
+  | "posix"
+  | "coerce"
+  | "filters"
+  | "encode"
+  | "references"
+  | "syntax"
+  | "names"
+>;
+
+/**
+ * A position in the template. Lines start at 1 and columns at 0, like ESTree.
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Properties shared by every node: offsets in the template (`end` is
+ * exclusive) and the matching lines and columns.
+ */
+interface BaseNode {
+  start: number;
+  end: number;
+  loc: { start: SourcePosition; end: SourcePosition };
+}
+
+/**
+ * Literal text. Also holds the text of placeholders with invalid names, which
+ * stay literal.
+ */
+export interface TextNode extends BaseNode {
+  type: "Text";
+  value: string;
+}
+
+/**
+ * Backslashes before a placeholder. In escape mode each pair stands for one
+ * backslash and an odd backslash makes the placeholder after it literal; the
+ * node then spans that placeholder too.
+ */
+export interface EscapeNode extends BaseNode {
+  type: "Escape";
+  /** Text as written. */
+  raw: string;
+  /** Text produced by the escape. */
+  value: string;
+}
+
+/**
+ * The default or alternate value of a placeholder: the text after its
+ * operator. Its body may contain nested placeholders.
+ */
+export interface DefaultNode extends BaseNode {
+  type: "Default";
+  /** Quote wrapping the value, if any. */
+  quote?: '"' | "'";
+  /** Content of the value, without the quotes. */
+  body: ContentNode[];
+}
+
+/**
+ * A placeholder to resolve.
+ */
+export interface PlaceholderNode extends BaseNode {
+  type: "Placeholder";
+  /** Opening token, e.g. `${`. */
+  open: string;
+  /** Closing token, e.g. `}`; empty for the `bare` dialect. */
+  close: string;
+  /** Whitespace written before the key. */
+  before: string;
+  /** Variable name, or `@path` for references. */
+  key: string;
+  /** Offsets of the key in the template. */
+  keyStart: number;
+  keyEnd: number;
+  /** Filter pipeline as written after the key, e.g. ` | upper`; often empty. */
+  pipeline: string;
+  /** Filters of the pipeline, with their raw arguments. */
+  filters: FilterCall[];
+  /** Operator before the default, e.g. `:` or `:-`. */
+  operator?: string;
+  default?: DefaultNode;
+}
+
+/**
+ * Node found in the content of a template or a default.
+ */
+export type ContentNode = TextNode | EscapeNode | PlaceholderNode;
+
+/**
+ * Root node returned by {@link parse}.
+ */
+export interface TemplateNode extends BaseNode {
+  type: "Template";
+  body: ContentNode[];
+}
+
+/**
+ * Any node of the tree.
+ */
+export type AstNode = TemplateNode | ContentNode | DefaultNode;
+
+/**
+ * Builds the `start`, `end` and `loc` properties of nodes of one template.
+ */
+function locator(template: string): (start: number, end: number) => BaseNode {
+  const lineStarts = [0];
+  for (let i = template.indexOf("\n"); i !== -1; ) {
+    lineStarts.push(i + 1);
+    i = template.indexOf("\n", i + 1);
+  }
+
+  const position = (offset: number): SourcePosition => {
+    // Last line starting at or before the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] };
+  };
+
+  return (start, end) => ({
+    start,
+    end,
+    loc: { start: position(start), end: position(end) },
+  });
+}
+
+/**
+ * Parses a template into a tree of text, escape, placeholder and default
+ * nodes, with positions. Placeholders nested in defaults are found in the body
+ * of their {@link DefaultNode}. The tree follows what {@link interpolate} does
+ * with the same options, and {@link print} turns it back into the template.
+ *
+ * @param template The text to parse.
+ * @param options Syntax options matching the ones used to interpolate.
+ * @returns The root node of the tree.
+ * @throws {TypeError} When the `syntax` or `names` option is invalid.
+ *
+ * @example
+ * parse('Hi ${NAME:Guest}');
+ * // Returns: {
+ * //   type: 'Template', start: 0, end: 16, loc: { ... },
+ * //   body: [
+ * //     { type: 'Text', value: 'Hi ', start: 0, end: 3, loc: { ... } },
+ * //     { type: 'Placeholder', key: 'NAME', operator: ':', start: 3, end: 16,
+ * //       default: { type: 'Default', body: [{ type: 'Text', value: 'Guest', ... }], ... },
+ * //       ... },
+ * //   ],
+ * // }
+ */
+export function parse(
+  template: string,
+  options: ParseOptions = {},
+): TemplateNode {
+  const { escape = true } = options;
+  const syntax = resolveSyntax(options.syntax);
+  const isName = nameValidator(options.names);
+  const at = locator(template);
+
+  // Parses template.slice(from, to), the template itself or a default
+  const parseContent = (from: number, to: number): ContentNode[] => {
+    const text = template.slice(from, to);
+    const body: ContentNode[] = [];
+    let textStart = 0;
+    // Position up to which `text` has been turned into nodes
+    let copied = 0;
+    const unclosed = new Set<number>();
+
+    const flushText = (end: number) => {
+      if (end > textStart) {
+        body.push({
+          type: "Text",
+          value: text.slice(textStart, end),
+          ...at(from + textStart, from + end),
+        });
+      }
+    };
+
+    while (true) {
+      const match = findNextPlaceholder(text, copied, syntax, isName, unclosed);
+      if (!match) break;
+
+      const { start, end, inner, full } = match;
+      let backslashes = 0;
+      while (
+        start - backslashes > copied &&
+        text[start - backslashes - 1] === "\\"
+      ) {
+        backslashes++;
+      }
+      copied = end + 1;
+
+      if (escape && backslashes > 0) {
+        const escaped = backslashes % 2 === 1;
+        const escapeEnd = escaped ? end + 1 : start;
+        flushText(start - backslashes);
+        body.push({
+          type: "Escape",
+          raw: text.slice(start - backslashes, escapeEnd),
+          value:
+            "\\".repeat(Math.floor(backslashes / 2)) + (escaped ? full : ""),
+          ...at(from + start - backslashes, from + escapeEnd),
+        });
+        textStart = escapeEnd;
+        if (escaped) continue;
+      }
+
+      const { key, filters, operator, defaultValue } = parsePlaceholder(
+        inner,
+        options,
+        syntax,
+        isName,
+      );
+      const reference = options.references === true && key.startsWith("@");
+      if (reference ? !referencePath(key) : !isName(key)) {
+        // The opening token stays literal; keep looking inside the placeholder
+        copied = start + syntax.open.length;
+        continue;
+      }
+
+      flushText(start);
+      const innerStart = from + start + syntax.open.length;
+      const word = defaultValue ?? "";
+      const head = inner.slice(
+        0,
+        inner.length - (operator?.length ?? 0) - word.length,
+      );
+      const before = head.indexOf(key);
+      const node: PlaceholderNode = {
+        type: "Placeholder",
+        open: syntax.open,
+        close: full.slice(syntax.open.length + inner.length),
+        before: head.slice(0, before),
+        key,
+        keyStart: innerStart + before,
+        keyEnd: innerStart + before + key.length,
+        pipeline: head.slice(before + key.length),
+        filters: filters ?? [],
+        ...at(from + start, from + end + 1),
+      };
+      if (operator !== undefined) {
+        node.operator = operator;
+        const wordStart = innerStart + head.length + operator.length;
+        const wordEnd = wordStart + word.length;
+        const quote = word[0];
+        const quoted =
+          word.length >= 2 &&
+          (quote === '"' || quote === "'") &&
+          word.endsWith(quote);
+        node.default = {
+          type: "Default",
+          ...(quoted ? { quote } : {}),
+          body: quoted
+            ? parseContent(wordStart + 1, wordEnd - 1)
+            : parseContent(wordStart, wordEnd),
+          ...at(wordStart, wordEnd),
+        };
+      }
+      body.push(node);
+      textStart = end + 1;
+    }
+
+    flushText(text.length);
+    return body;
+  };
+
+  return {
+    type: "Template",
+    body: parseContent(0, template.length),
+    ...at(0, template.length),
+  };
+}
+
+/**
+ * Turns a tree built by {@link parse} back into text. Printing an unmodified
+ * tree returns the original template exactly; changes made to the nodes are
+ * reflected, which makes it usable to write fixes.
+ *
+ * @param node The tree, or any node of it.
+ * @returns The text of the node.
+ *
+ * @example
+ * const ast = parse('${HOST:localhost}');
+ * const [placeholder] = ast.body as PlaceholderNode[];
+ * placeholder.key = 'DB_HOST';
+ * print(ast);
+ * // Returns: '${DB_HOST:localhost}'
+ */
+export function print(node: AstNode): string {
+  switch (node.type) {
+    case "Template":
+      return node.body.map(print).join("");
+    case "Text":
+      return node.value;
+    case "Escape":
+      return node.raw;
+    case "Default": {
+      const quote = node.quote ?? "";
+      return quote + node.body.map(print).join("") + quote;
+    }
+    case "Placeholder":
+      return (
+        node.open +
+        node.before +
+        node.key +
+        node.pipeline +
+        (node.operator ?? "") +
+        (node.default ? print(node.default) : "") +
+        node.close
+      );
+  }
+}
+
+/** @internal */
+export { locator };
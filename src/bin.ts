@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+import { run } from "./cli.js";
+
+run(process.argv.slice(2), {
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr,
+  env: process.env,
+}).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,148 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { run } from "./cli.js";
+
+/**
+ * Runs the CLI with an in-memory stdin and captures its output.
+ */
+async function exec(
+  argv: string[],
+  stdin = "",
+  env: Record<string, string | undefined> = {},
+) {
+  let stdout = "";
+  let stderr = "";
+  const code = await run(argv, {
+    stdin: [stdin],
+    stdout: { write: (chunk: string) => (stdout += chunk) },
+    stderr: { write: (chunk: string) => (stderr += chunk) },
+    env,
+  });
+  return { code, stdout, stderr };
+}
+
+describe("env-interpolate CLI", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "env-interpolate-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("interpolates plain text from stdin", async () => {
+    const result = await exec([], "Hello ${NAME:Guest}!\n", { NAME: "Ada" });
+    expect(result).toEqual({ code: 0, stdout: "Hello Ada!\n", stderr: "" });
+  });
+
+  it("interpolates only string values of JSON input", async () => {
+    const input = '{\n    "port": "${PORT:3000}",\n    "n": 1\n}\n';
+    const result = await exec([], input, { PORT: "8080" });
+    expect(result.stdout).toBe('{\n    "port": "8080",\n    "n": 1\n}\n');
+  });
+
+  it("escapes interpolated values in JSON output", async () => {
+    const result = await exec([], '{"v":"${V}"}', { V: 'say "hi"' });
+    expect(JSON.parse(result.stdout)).toEqual({ v: 'say "hi"' });
+  });
+
+  it("treats text that is not valid JSON as plain text", async () => {
+    const result = await exec([], "[${SECTION}]\nkey=1", { SECTION: "app" });
+    expect(result.stdout).toBe("[app]\nkey=1");
+  });
+
+  it("reads the input file and writes to --out", async () => {
+    const input = join(dir, "config.json");
+    const out = join(dir, "out.json");
+    writeFileSync(input, '{"a":"${A}"}');
+    const result = await exec([input, "--out", out], "", { A: "1" });
+    expect(result).toEqual({ code: 0, stdout: "", stderr: "" });
+    expect(readFileSync(out, "utf8")).toBe('{"a":"1"}');
+  });
+
+  it("fails on invalid .json files", async () => {
+    const input = join(dir, "config.json");
+    writeFileSync(input, "{oops");
+    const result = await exec([input]);
+    expect(result.code).toBe(1);
+    expect(result.stderr).toMatch(/^env-interpolate: /);
+  });
+
+  it("loads variables from --env-file with process env taking precedence", async () => {
+    const envFile = join(dir, ".env");
+    const localFile = join(dir, ".env.local");
+    writeFileSync(envFile, "A=base\nB=base\nC=base");
+    writeFileSync(localFile, "B=local");
+    const result = await exec(
+      ["-e", localFile, "--env-file", envFile],
+      "${A} ${B} ${C}",
+      { C: "env" },
+    );
+    expect(result.stdout).toBe("base local env");
+  });
+
+  it("exits non-zero with every unresolved variable in strict mode", async () => {
+    const result = await exec(["--strict"], '{"a":"${A}","b":["${B}"]}');
+    expect(result.code).toBe(1);
+    expect(result.stdout).toBe("");
+    expect(result.stderr).toContain("A at a (offset 0)");
+    expect(result.stderr).toContain("B at b[0] (offset 0)");
+  });
+
+  it("leaves unresolved placeholders without --strict", async () => {
+    const result = await exec([], "${A}");
+    expect(result).toEqual({ code: 0, stdout: "${A}", stderr: "" });
+  });
+
+  it("maps --no-escape and --max-passes onto the options", async () => {
+    expect((await exec(["--no-escape"], "\\${A}", { A: "x" })).stdout).toBe(
+      "\\x",
+    );
+    expect((await exec([], "\\${A}", { A: "x" })).stdout).toBe("${A}");
+    expect((await exec(["--max-passes", "1"], "${A:${B:c}}")).stdout).toBe(
+      "${B:c}",
+    );
+  });
+
+  it("selects the placeholder syntax with --syntax", async () => {
+    const input = "{{A}} ${A}";
+    expect(
+      (await exec(["--syntax", "mustache"], input, { A: "x" })).stdout,
+    ).toBe("x ${A}");
+  });
+
+  it("selects the variable-name grammar with --names", async () => {
+    const result = await exec(["--names", "dotted"], "${app.port:80}", {
+      "app.port": "8080",
+    });
+    expect(result.stdout).toBe("8080");
+  });
+
+  it("rejects invalid usage with exit code 2", async () => {
+    expect((await exec(["--max-passes", "x"])).code).toBe(2);
+    expect((await exec(["--syntax", "jinja"])).stderr).toContain(
+      'Unknown syntax dialect "jinja"',
+    );
+    expect((await exec(["--names", "camel"])).code).toBe(2);
+    expect((await exec(["--unknown"])).code).toBe(2);
+    expect((await exec(["a", "b"])).code).toBe(2);
+  });
+
+  it("prints usage with --help", async () => {
+    const result = await exec(["--help"]);
+    expect(result.code).toBe(0);
+    expect(result.stdout).toMatch(/^Usage: env-interpolate/);
+  });
+
+  it("reports unreadable input files", async () => {
+    const result = await exec([join(dir, "missing.txt")]);
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain("ENOENT");
+  });
+});
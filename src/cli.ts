@@ -0,0 +1,190 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+
+import {
+  interpolate,
+  nameValidator,
+  resolveSyntax,
+  type Input,
+  type InterpolateOptions,
+  type NameGrammar,
+  type SyntaxDialect,
+} from "./interpolate.js";
+import { loadEnvFiles } from "./node.js";
+
+/**
+ * Streams and environment used by {@link run}, injectable for testing.
+ */
+export interface CliIO {
+  stdin: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>;
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+  env: Record<string, string | undefined>;
+}
+
+const USAGE = `Usage: env-interpolate [options] [file]
+
+Interpolates \${VAR:default} placeholders in a file (or stdin when no file is
+given). JSON input is detected automatically and only its string values are
+interpolated; anything else is processed as plain text.
+
+Options:
+  -e, --env-file <path>   Load variables from a .env file (repeatable, first wins)
+  -o, --out <path>        Write the result to a file instead of stdout
+      --strict            Fail when any placeholder cannot be resolved
+      --no-escape         Treat backslashes before placeholders literally
+      --max-passes <n>    Maximum nesting depth to expand (default: no limit)
+      --syntax <dialect>  Placeholder syntax: default (\${VAR}), mustache
+                          ({{VAR}}), bare ($VAR) or windows (%VAR%)
+      --names <grammar>   Variable names: default, posix, dotted, kebab or
+                          unicode
+  -h, --help              Show this help
+`;
+
+// Exit codes: success, interpolation or I/O failure, invalid usage
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * Reads a whole stream into a string.
+ */
+async function readAll(stream: CliIO["stdin"]): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = "";
+  for await (const chunk of stream) {
+    text +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+/**
+ * Parses `text` as JSON when the file name or the content suggests JSON.
+ * Returns `undefined` for plain text.
+ */
+function parseJson(text: string, file: string | undefined): unknown {
+  const ext = file === undefined ? "" : extname(file).toLowerCase();
+  const looksLikeJson = /^\s*[[{]/.test(text);
+  if (ext !== ".json" && !looksLikeJson) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    // An explicit .json file must be valid; other files fall back to text
+    if (ext === ".json") throw error;
+    return undefined;
+  }
+}
+
+/**
+ * Serializes interpolated JSON keeping the layout of the input: compact input
+ * stays compact, indented input keeps its indentation and trailing newline.
+ */
+function stringifyJson(value: unknown, input: string): string {
+  const body = input.trim();
+  const eol = input.endsWith("\n") ? "\n" : "";
+  if (!body.includes("\n")) return JSON.stringify(value) + eol;
+  const indent = /^([ \t]+)\S/m.exec(body)?.[1] ?? 2;
+  return JSON.stringify(value, null, indent) + eol;
+}
+
+/**
+ * Runs the `env-interpolate` command line tool.
+ *
+ * @param argv Command line arguments, without the node executable and script.
+ * @param io Streams and environment to use.
+ * @returns The process exit code.
+ */
+export async function run(argv: string[], io: CliIO): Promise<number> {
+  let args: ReturnType<typeof parseCliArgs>;
+  try {
+    args = parseCliArgs(argv);
+  } catch (error) {
+    io.stderr.write(`env-interpolate: ${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  const { values, positionals } = args;
+
+  if (values.help) {
+    io.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+  if (positionals.length > 1) {
+    io.stderr.write(`env-interpolate: expected at most one input file\n`);
+    return EXIT_USAGE;
+  }
+
+  const options: InterpolateOptions = {
+    strict: values.strict,
+    escape: !values["no-escape"],
+  };
+  if (values["max-passes"] !== undefined) {
+    const maxPasses = Number(values["max-passes"]);
+    if (!Number.isInteger(maxPasses) || maxPasses < 0) {
+      io.stderr.write(
+        `env-interpolate: --max-passes must be a non-negative integer\n`,
+      );
+      return EXIT_USAGE;
+    }
+    options.maxPasses = maxPasses;
+  }
+  try {
+    if (values.syntax !== undefined) {
+      options.syntax = resolveSyntax(values.syntax as SyntaxDialect);
+    }
+    if (values.names !== undefined) {
+      options.names = nameValidator(values.names as NameGrammar);
+    }
+  } catch (error) {
+    io.stderr.write(`env-interpolate: ${(error as Error).message}\n`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    const [file] = positionals;
+    const input =
+      file === undefined ? await readAll(io.stdin) : readFileSync(file, "utf8");
+    const envFiles = values["env-file"] ?? [];
+    const variables =
+      envFiles.length > 0
+        ? [io.env, loadEnvFiles(envFiles, { variables: io.env })]
+        : io.env;
+
+    const json = parseJson(input, file);
+    const output =
+      json === undefined
+        ? interpolate(input, variables, options)
+        : stringifyJson(interpolate(json as Input, variables, options), input);
+
+    if (values.out === undefined) io.stdout.write(output);
+    else writeFileSync(values.out, output);
+    return EXIT_OK;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    io.stderr.write(`env-interpolate: ${message}\n`);
+    return EXIT_FAILURE;
+  }
+}
+
+/**
+ * Parses the command line arguments of {@link run}.
+ */
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      "env-file": { type: "string", short: "e", multiple: true },
+      out: { type: "string", short: "o" },
+      strict: { type: "boolean" },
+      "no-escape": { type: "boolean" },
+      "max-passes": { type: "string" },
+      syntax: { type: "string" },
+      names: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
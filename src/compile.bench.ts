@@ -0,0 +1,37 @@
+import { bench, describe } from "vitest";
+
+import { interpolate as baseline } from "./compile.baseline.js";
+import { compile, interpolate } from "./index.js";
+
+// A large configuration: 2,000 services with a few placeholders each
+const config = {
+  services: Array.from({ length: 2000 }, (_, index) => ({
+    name: `service-${index}`,
+    url: "https://${TENANT}.example.com/api/v${API_VERSION:1}/service-" + index,
+    database: "postgres://${DB_USER:app}:${DB_PASSWORD}@${DB_HOST}/${TENANT}",
+    labels: ["tenant=${TENANT}", "region=${REGION:${DEFAULT_REGION:eu}}"],
+    description: "Plain text without placeholders, copied as it is",
+  })),
+};
+
+const tenants = Array.from({ length: 10 }, (_, index) => ({
+  TENANT: `tenant-${index}`,
+  DB_PASSWORD: `secret-${index}`,
+  DB_HOST: "db.internal",
+}));
+
+describe("interpolating a large configuration for 10 tenants", () => {
+  const render = compile(config);
+
+  bench("baseline: interpolate 1.1.1", () => {
+    for (const variables of tenants) baseline(config, variables);
+  });
+
+  bench("interpolate", () => {
+    for (const variables of tenants) interpolate(config, variables);
+  });
+
+  bench("compile once, then render", () => {
+    for (const variables of tenants) render(variables);
+  });
+});
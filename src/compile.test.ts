@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  compile,
+  interpolate,
+  UnresolvedPlaceholderError,
+  type InterpolateOptions,
+  type SyntaxDialect,
+} from "./index.js";
+
+describe("compile", () => {
+  const config = {
+    db: {
+      url: "postgres://${DB_USER:app}:${DB_PASSWORD}@${DB_HOST:localhost}/${TENANT}",
+      pool: "${POOL|number}",
+    },
+    escaped: "\\${TENANT} and \\\\${TENANT}",
+    nested: "${MISSING:${TENANT:none}-${REGION:eu}}",
+    invalid: "${not valid ${TENANT}}",
+    list: ["${TENANT}", 42, null],
+  };
+
+  it("can be called repeatedly with different variables", () => {
+    const render = compile(config, { coerce: true });
+    for (const TENANT of ["acme", "globex", "initech"]) {
+      const variables = { TENANT, DB_PASSWORD: `${TENANT}-pw`, POOL: "5" };
+      expect(render(variables)).toEqual(
+        interpolate(config, variables, { coerce: true }),
+      );
+    }
+  });
+
+  it.each<[string, InterpolateOptions, string, Record<string, string>]>([
+    ["posix", { posix: true }, "${A:-x} ${B:+y} ${C-z}", { B: "b" }],
+    ["filters", { filters: true }, "${A|upper|join(${B:/x})}", { A: "a" }],
+    ["mustache", { syntax: "mustache" }, "{{A}} {{B:{{C}}}}", { A: "a" }],
+    ["no escape", { escape: false }, "\\${A}", { A: "a" }],
+    ["max passes", { maxPasses: 1 }, "${A}", { A: "${B}", B: "b" }],
+  ])("matches interpolate with %s", (_, options, input, variables) => {
+    expect(compile(input, options)(variables)).toBe(
+      interpolate(input, variables, options),
+    );
+  });
+
+  it("supports references and strict mode", () => {
+    const render = compile(
+      { host: "${HOST}", url: "http://${@host}" },
+      { references: true, strict: true },
+    );
+    expect(render({ HOST: "db" })).toEqual({ host: "db", url: "http://db" });
+    expect(() => render({})).toThrow(UnresolvedPlaceholderError);
+  });
+
+  it("expands placeholders found in variable values", () => {
+    const render = compile("${URL}");
+    expect(render({ URL: "http://${HOST}", HOST: "a" })).toBe("http://a");
+    expect(render({ URL: "${HOST}:80", HOST: "b" })).toBe("b:80");
+  });
+
+  it("interpolates keys when enabled", () => {
+    const render = compile({ "${REGION}": "${URL}" }, { keys: "first" });
+    expect(render({ REGION: "eu", URL: "u" })).toEqual({ eu: "u" });
+    expect(render({ REGION: "us", URL: "v" })).toEqual({ us: "v" });
+  });
+
+  it("reads the structure once", () => {
+    let reads = 0;
+    const content = {
+      get url() {
+        reads++;
+        return "${A}";
+      },
+      list: ["${A}!", { deep: true }],
+    };
+    const render = compile(content);
+    expect(render({ A: "x" })).toEqual({
+      url: "x",
+      list: ["x!", { deep: true }],
+    });
+    expect(render({ A: "y" })).toEqual({
+      url: "y",
+      list: ["y!", { deep: true }],
+    });
+    expect(reads).toBe(1);
+    expect(render({}).list[1]).not.toBe(content.list[1]);
+  });
+
+  it("keeps shared references, class instances and maps", () => {
+    class Endpoint {
+      constructor(readonly url: string) {}
+    }
+    const shared = { host: "${HOST}" };
+    const content = {
+      primary: shared,
+      replica: shared,
+      endpoint: new Endpoint("${HOST}"),
+      ports: new Map([["http", "${PORT}"]]),
+    };
+    const variables = { HOST: "db", PORT: "80" };
+    const result = compile(content)(variables);
+    expect(result).toEqual(interpolate(content, variables));
+    expect(result.replica).toBe(result.primary);
+    expect(result.endpoint).toBeInstanceOf(Endpoint);
+  });
+
+  it("validates options at compile time", () => {
+    expect(() => compile("${A}", { syntax: "jinja" as SyntaxDialect })).toThrow(
+      'Unknown syntax dialect "jinja"',
+    );
+  });
+
+  it("defaults to process.env", () => {
+    process.env.COMPILE_TEST_VAR = "from-env";
+    try {
+      expect(compile("${COMPILE_TEST_VAR}")()).toBe("from-env");
+    } finally {
+      delete process.env.COMPILE_TEST_VAR;
+    }
+  });
+});
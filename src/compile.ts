@@ -0,0 +1,235 @@
+import {
+  PlaceholderError,
+  UnresolvedPlaceholderError,
+  type UnresolvedPlaceholder,
+} from "./errors.js";
+import {
+  defaults,
+  formatPath,
+  interpolateWith,
+  isPlainObject,
+  parseText,
+  resolveOptions,
+  resolveString,
+  setProperty,
+  toLookup,
+  traverse,
+  unquote,
+  type Input,
+  type InterpolateOptions,
+  type PathSegment,
+  type Segment,
+  type Variables,
+} from "./interpolate.js";
+
+/**
+ * A structure compiled by {@link compile}, interpolated with the variables it
+ * receives.
+ */
+export type CompiledTemplate<T> = (variables?: Variables) => T;
+
+/**
+ * How {@link compile} rebuilds a part of the structure on every call: a value
+ * copied as it is, a string to interpolate with the path reported in errors,
+ * or an array or plain object of parts.
+ */
+type Plan =
+  | { kind: "value"; value: unknown }
+  | { kind: "text"; text: string; path: string }
+  | { kind: "array"; items: Plan[] }
+  | {
+      kind: "object";
+      proto: object | null;
+      keys: string[];
+      items: Plan[];
+    };
+
+/**
+ * Parses every string of a structure once and returns a function
+ * interpolating it with any variables. Use it when the same document is
+ * interpolated many times, e.g. once per tenant: only variable values still
+ * need to be scanned for placeholders on each call.
+ *
+ * The compiled function behaves exactly like {@link interpolate} with the same
+ * options. Structures made of plain objects, arrays and primitives are read
+ * once and rebuilt from the parsed strings without walking them again, unless
+ * the `keys`, `references` or `visit` option needs the whole traversal. Do not
+ * change the structure after compiling it: the change may or may not show up
+ * in the results.
+ *
+ * @param content The input to compile. May be a string, array, or object graph.
+ * @param options Interpolation options, fixed for every call.
+ * @returns A function interpolating the structure. Its variables default to `process.env`.
+ * @throws {TypeError} When the `syntax`, `names` or `encode` option is invalid.
+ *
+ * @example
+ * const render = compile({ db: { url: 'postgres://${DB_HOST}/${TENANT}' } });
+ * render({ DB_HOST: 'db', TENANT: 'acme' });
+ * // Returns: { db: { url: 'postgres://db/acme' } }
+ * render({ DB_HOST: 'db', TENANT: 'globex' });
+ * // Returns: { db: { url: 'postgres://db/globex' } }
+ */
+export function compile<T extends Input>(
+  content: T,
+  options: InterpolateOptions = {},
+): CompiledTemplate<T> {
+  const resolved = resolveOptions(options);
+  const { syntax, isName } = resolved;
+  const templates = new Map<string, Segment[]>();
+
+  // Defaults and filter arguments are parsed too, they are part of the input
+  const add = (text: string): void => {
+    if (templates.has(text)) return;
+    const segments = parseText(text, options, syntax, isName);
+    templates.set(text, segments);
+    for (const segment of segments) {
+      if (typeof segment === "string") continue;
+      if (segment.defaultValue) add(unquote(segment.defaultValue));
+      for (const { args } of segment.filters ?? []) {
+        for (const arg of args) add(unquote(arg));
+      }
+    }
+  };
+
+  const plan =
+    options.keys || options.references || options.visit
+      ? undefined
+      : planOf(content, [], new Set(), syntax.open);
+  if (!plan) {
+    traverse(
+      content,
+      (str) => {
+        add(str);
+        return str;
+      },
+      undefined,
+      [],
+      options.keys
+        ? {
+            keys: {
+              rename: (key) => {
+                add(key);
+                return key;
+              },
+              onCollision: "first",
+            },
+          }
+        : {},
+    );
+    return (variables = defaults) =>
+      interpolateWith(content, variables, options, { templates });
+  }
+
+  const texts: string[] = [];
+  collectTexts(plan, texts);
+  texts.forEach(add);
+
+  return (variables = defaults) => {
+    const lookup = toLookup(variables);
+    // Variable values repeat from string to string within a call
+    const parsed = new Map<string, Segment[] | undefined>();
+    const unresolved: UnresolvedPlaceholder[] = [];
+
+    const render = (part: Plan): unknown => {
+      switch (part.kind) {
+        case "value":
+          return part.value;
+        case "array":
+          return part.items.map(render);
+        case "object": {
+          const out: Record<string, unknown> =
+            part.proto === Object.prototype ? {} : Object.create(part.proto);
+          part.keys.forEach((key, index) => {
+            setProperty(out, key, render(part.items[index]));
+          });
+          return out;
+        }
+        case "text": {
+          let result: ReturnType<typeof resolveString>;
+          try {
+            result = resolveString(
+              part.text,
+              lookup,
+              options,
+              { templates, parsed },
+              resolved,
+            );
+          } catch (error) {
+            // Attach the location of the offending string
+            if (error instanceof PlaceholderError && !error.path) {
+              throw error.withPath(part.path);
+            }
+            throw error;
+          }
+          if (options.strict) {
+            for (const match of result.unresolved) {
+              unresolved.push({ ...match, path: part.path });
+            }
+          }
+          // A lone placeholder with filters is replaced by their result
+          return result.value !== undefined ? result.value : result.text;
+        }
+      }
+    };
+
+    const result = render(plan) as T;
+    if (unresolved.length > 0) throw new UnresolvedPlaceholderError(unresolved);
+    return result;
+  };
+}
+
+/**
+ * Reads the structure into a {@link Plan}, or returns `undefined` when it holds
+ * anything else than plain objects, arrays and primitives, a shared or cyclic
+ * reference, or properties that are not enumerable string keys.
+ */
+function planOf(
+  value: unknown,
+  path: PathSegment[],
+  seen: Set<object>,
+  open: string,
+): Plan | undefined {
+  if (typeof value === "string") {
+    return value.includes(open)
+      ? { kind: "text", text: value, path: formatPath(path) }
+      : { kind: "value", value };
+  }
+  if (!value || typeof value !== "object") return { kind: "value", value };
+  if (seen.has(value)) return undefined;
+  seen.add(value);
+
+  const items: Plan[] = [];
+  const addItem = (item: unknown, segment: PathSegment): boolean => {
+    path.push(segment);
+    const plan = planOf(item, path, seen, open);
+    path.pop();
+    if (plan) items.push(plan);
+    return plan !== undefined;
+  };
+  if (Array.isArray(value)) {
+    // Holes are dropped, as they are by interpolate
+    const complete = value.every(addItem);
+    return complete ? { kind: "array", items } : undefined;
+  }
+  if (!isPlainObject(value)) return undefined;
+  const keys = Object.keys(value);
+  if (
+    Object.getOwnPropertyNames(value).length !== keys.length ||
+    Object.getOwnPropertySymbols(value).length > 0
+  ) {
+    return undefined;
+  }
+  const complete = keys.every((key) => addItem(value[key], key));
+  if (!complete) return undefined;
+  return { kind: "object", proto: Object.getPrototypeOf(value), keys, items };
+}
+
+/**
+ * Lists the strings of a plan that hold placeholders.
+ */
+function collectTexts(plan: Plan, texts: string[]): void {
+  if (plan.kind === "text") texts.push(plan.text);
+  else if (plan.kind !== "value") {
+    for (const item of plan.items) collectTexts(item, texts);
+  }
+}
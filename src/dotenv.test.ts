@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  RequiredVariableError,
+  UnresolvedPlaceholderError,
+  parseEnv,
+} from "./index.js";
+
+describe("parseEnv", () => {
+  it("parses simple assignments", () => {
+    const result = parseEnv("A=1\nB = two\n  C=three  ", { variables: {} });
+    expect(result).toEqual({ A: "1", B: "two", C: "three" });
+  });
+
+  it("ignores comments, blank lines and non-assignments", () => {
+    const text = [
+      "# comment",
+      "",
+      "   # indented comment",
+      "not an assignment",
+      "A=1 # inline comment",
+      "B=value#not-a-comment",
+      "C=#",
+    ].join("\n");
+    expect(parseEnv(text, { variables: {} })).toEqual({
+      A: "1",
+      B: "value#not-a-comment",
+      C: "",
+    });
+  });
+
+  it("supports export prefixes and dotted or dashed keys", () => {
+    const result = parseEnv("export A=1\nexport\tB.c-d=2", { variables: {} });
+    expect(result).toEqual({ A: "1", "B.c-d": "2" });
+  });
+
+  it("handles single, double and backtick quotes", () => {
+    const text = [
+      "SINGLE='a # b'",
+      'DOUBLE="a # b" # comment',
+      'BACKTICK=`it\'s "quoted"`',
+      "EMPTY=''",
+    ].join("\n");
+    expect(parseEnv(text, { variables: {} })).toEqual({
+      SINGLE: "a # b",
+      DOUBLE: "a # b",
+      BACKTICK: 'it\'s "quoted"',
+      EMPTY: "",
+    });
+  });
+
+  it("supports multiline quoted values", () => {
+    const text = 'KEY="-----BEGIN-----\nabc\n-----END-----"\nNEXT=1';
+    expect(parseEnv(text, { variables: {} })).toEqual({
+      KEY: "-----BEGIN-----\nabc\n-----END-----",
+      NEXT: "1",
+    });
+  });
+
+  it("processes escapes inside double quotes only", () => {
+    const text = ['D="a\\nb\\t\\"c\\""', "S='a\\nb'"].join("\n");
+    expect(parseEnv(text, { variables: {} })).toEqual({
+      D: 'a\nb\t"c"',
+      S: "a\\nb",
+    });
+  });
+
+  it("normalizes Windows line endings", () => {
+    expect(parseEnv("A=1\r\nB=2\r\n", { variables: {} })).toEqual({
+      A: "1",
+      B: "2",
+    });
+  });
+
+  it("expands values in order using earlier assignments", () => {
+    const text = [
+      "HOST=localhost",
+      "URL=http://${HOST}:${PORT:8080}",
+      "PORT=9090",
+      "LATER=${PORT}",
+    ].join("\n");
+    expect(parseEnv(text, { variables: {} })).toEqual({
+      HOST: "localhost",
+      URL: "http://localhost:8080",
+      PORT: "9090",
+      LATER: "9090",
+    });
+  });
+
+  it("expands nested defaults and unquoted, double and backtick values", () => {
+    const text = [
+      "A=${MISSING:${FALLBACK:x}}",
+      'B="${A}-double"',
+      "C=`${A}-backtick`",
+      "D='${A}-single'",
+    ].join("\n");
+    expect(parseEnv(text, { variables: {} })).toEqual({
+      A: "x",
+      B: "x-double",
+      C: "x-backtick",
+      D: "${A}-single",
+    });
+  });
+
+  it("lets the provided variables override earlier assignments", () => {
+    const text = "HOST=file\nURL=${HOST}";
+    expect(parseEnv(text, { variables: { HOST: "env" } })).toEqual({
+      HOST: "file",
+      URL: "env",
+    });
+  });
+
+  it("falls back to process.env by default", () => {
+    process.env.DOTENV_TEST_VALUE = "from-env";
+    try {
+      expect(parseEnv("A=${DOTENV_TEST_VALUE}")).toEqual({ A: "from-env" });
+    } finally {
+      delete process.env.DOTENV_TEST_VALUE;
+    }
+  });
+
+  it("keeps escaped placeholders literal", () => {
+    expect(parseEnv("A=\\${B}\nB=1", { variables: {} })).toEqual({
+      A: "${B}",
+      B: "1",
+    });
+  });
+
+  it("can disable expansion", () => {
+    expect(parseEnv("A=1\nB=${A}", { expand: false })).toEqual({
+      A: "1",
+      B: "${A}",
+    });
+  });
+
+  it("uses the last assignment of a repeated key", () => {
+    expect(parseEnv("A=1\nA=2", { variables: {} })).toEqual({ A: "2" });
+  });
+
+  it("treats an unterminated quote as an unquoted value", () => {
+    expect(parseEnv('A="open\nB=1', { variables: {} })).toEqual({
+      A: '"open',
+      B: "1",
+    });
+  });
+
+  it("reports unresolved placeholders by key in strict mode", () => {
+    try {
+      parseEnv("A=${MISSING}\nB=ok", { variables: {}, strict: true });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(UnresolvedPlaceholderError);
+      expect((error as UnresolvedPlaceholderError).unresolved).toEqual([
+        { key: "MISSING", placeholder: "${MISSING}", path: "A", offset: 0 },
+      ]);
+    }
+  });
+
+  it("supports POSIX operators and locates failures by key", () => {
+    const text = "A=${X:-dflt}\nB=${REQUIRED:?must be set}";
+    expect(() => parseEnv(text, { variables: {}, posix: true })).toThrow(
+      new RequiredVariableError("REQUIRED", "must be set", "B"),
+    );
+    expect(parseEnv("A=${X:-dflt}", { variables: {}, posix: true })).toEqual({
+      A: "dflt",
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  PlaceholderError,
+  UnresolvedPlaceholderError,
+  type UnresolvedPlaceholder,
+} from "./errors.js";
+import { defaults, replace, toLookup } from "./interpolate.js";
+import type { InterpolateOptions, Variables } from "./interpolate.js";
+
+/**
+ * Options for {@link parseEnv}. Interpolation options apply to the expansion of
+ * values.
+ */
+export interface ParseEnvOptions extends InterpolateOptions {
+  /**
+   * Expand placeholders in unquoted, double-quoted and backtick-quoted values.
+   * Single-quoted values are always kept literally. Defaults to true.
+   */
+  expand?: boolean;
+  /**
+   * Variables used while expanding values. They take precedence over the
+   * assignments made earlier in the file, matching how shells and docker
+   * compose let the environment override `.env` files. Defaults to
+   * `process.env`.
+   */
+  variables?: Variables;
+}
+
+// `KEY=` with an optional `export` prefix; the value starts after the match
+const ASSIGNMENT_RE = /^[ \t]*(?:export[ \t]+)?([A-Za-z_][\w.-]*)[ \t]*=[ \t]*/;
+// Escape sequences understood inside double quotes
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  '"': '"',
+};
+
+/**
+ * Finds the closing quote of a quoted value. Inside double quotes a backslash
+ * escapes the next character.
+ */
+function findClosingQuote(text: string, from: number, quote: string): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\" && quote === '"') i++;
+    else if (text[i] === quote) return i;
+  }
+  return -1;
+}
+
+/**
+ * Parses the content of a `.env` file into a record of variables.
+ *
+ * Supports blank lines, `#` comments (whole-line, or inline after whitespace
+ * for unquoted values), `export` prefixes, and single, double or backtick
+ * quotes, all of which may span multiple lines. Double-quoted values
+ * understand the `\n`, `\r`, `\t` and `\"` escapes. Lines that are not
+ * assignments are ignored.
+ *
+ * Values are expanded in order with the same engine as {@link interpolate}, so
+ * a value can reference variables assigned earlier in the file, use defaults
+ * (`${PORT:3000}`) or nested placeholders. Single-quoted values are never
+ * expanded.
+ *
+ * @param text Content of the `.env` file.
+ * @param options Expansion settings and interpolation options.
+ * @returns The variables defined in the file. Later assignments of the same key win.
+ * @throws {UnresolvedPlaceholderError} In strict mode, when a value references an undefined variable.
+ *
+ * @example
+ * parseEnv([
+ *   '# Database',
+ *   'export DB_HOST=localhost',
+ *   'DB_URL="postgres://${DB_HOST}:${DB_PORT:5432}/app"',
+ *   "PASSWORD='${not expanded}'",
+ * ].join('\n'), { variables: {} });
+ * // Returns: {
+ * //   DB_HOST: 'localhost',
+ * //   DB_URL: 'postgres://localhost:5432/app',
+ * //   PASSWORD: '${not expanded}'
+ * // }
+ */
+export function parseEnv(
+  text: string,
+  options: ParseEnvOptions = {},
+): Record<string, string> {
+  const {
+    expand = true,
+    variables = defaults,
+    ...interpolateOptions
+  } = options;
+  const parsed = new Map<string, string>();
+  const lookup = toLookup([toLookup(variables), (key) => parsed.get(key)]);
+  const unresolved: UnresolvedPlaceholder[] = [];
+
+  const expandValue = (key: string, value: string) => {
+    const found: Omit<UnresolvedPlaceholder, "path">[] = [];
+    try {
+      const result = replace(value, lookup, interpolateOptions, found);
+      unresolved.push(...found.map((match) => ({ ...match, path: key })));
+      return result;
+    } catch (error) {
+      if (error instanceof PlaceholderError && !error.path) {
+        throw error.withPath(key);
+      }
+      throw error;
+    }
+  };
+
+  const source = text.replace(/\r\n?/g, "\n");
+  let pos = 0;
+  while (pos < source.length) {
+    let lineEnd = source.indexOf("\n", pos);
+    if (lineEnd === -1) lineEnd = source.length;
+    const match = ASSIGNMENT_RE.exec(source.substring(pos, lineEnd));
+    if (!match) {
+      pos = lineEnd + 1;
+      continue;
+    }
+
+    const key = match[1];
+    const valueStart = pos + match[0].length;
+    const quote = source[valueStart];
+    const close =
+      quote === "'" || quote === '"' || quote === "`"
+        ? findClosingQuote(source, valueStart + 1, quote)
+        : -1;
+
+    let value: string;
+    if (close !== -1) {
+      value = source.substring(valueStart + 1, close);
+      if (quote === '"') {
+        value = value.replace(
+          /\\([nrt"])/g,
+          (_, ch: string) => DOUBLE_QUOTE_ESCAPES[ch],
+        );
+      }
+      if (quote !== "'" && expand) value = expandValue(key, value);
+      // Anything after the closing quote (e.g. a comment) is ignored
+      lineEnd = source.indexOf("\n", close);
+      if (lineEnd === -1) lineEnd = source.length;
+    } else {
+      // Unquoted value: strip inline comments and surrounding whitespace
+      value = source
+        .substring(valueStart, lineEnd)
+        .replace(/(^|\s+)#.*$/, "")
+        .trim();
+      if (expand) value = expandValue(key, value);
+    }
+
+    parsed.set(key, value);
+    pos = lineEnd + 1;
+  }
+
+  if (options.strict && unresolved.length > 0) {
+    throw new UnresolvedPlaceholderError(unresolved);
+  }
+  return Object.fromEntries(parsed);
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  compile,
+  interpolate,
+  interpolateWithSecrets,
+  registerEncoder,
+  registerFilter,
+} from "./index.js";
+
+describe("encoders", () => {
+  it.each([
+    ["url", "p@ss/w:rd?", "p%40ss%2Fw%3Ard%3F"],
+    ["json-string", 'say "hi"\n\\', 'say \\"hi\\"\\n\\\\'],
+    ["shell-single-quote", "it's", "it'\\''s"],
+    [
+      "html",
+      `<a href="x">Tom & Jerry's</a>`,
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;",
+    ],
+    [
+      "xml",
+      `<a b="c">'&'</a>`,
+      "&lt;a b=&quot;c&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;",
+    ],
+    ["raw", "<&>", "<&>"],
+  ])("encodes values with %s", (encode, value, expected) => {
+    expect(interpolate("${V}", { V: value }, { encode })).toBe(expected);
+  });
+
+  it("encodes substituted values only", () => {
+    expect(
+      interpolate(
+        "postgres://${USER}:${PASS}@db/app",
+        { USER: "app", PASS: "p@ss/word" },
+        { encode: "url" },
+      ),
+    ).toBe("postgres://app:p%40ss%2Fword@db/app");
+  });
+
+  it("encodes the whole replacement once, defaults included", () => {
+    expect(
+      interpolate(
+        "<p>${GREETING:Hi ${NAME}}</p>",
+        { NAME: "<b>&</b>", ALIAS: "${NAME}" },
+        { encode: "html" },
+      ),
+    ).toBe("<p>Hi &lt;b&gt;&amp;&lt;/b&gt;</p>");
+    expect(
+      interpolate(
+        "'${ALIAS}'",
+        { NAME: "it's", ALIAS: "${NAME}" },
+        { encode: "shell-single-quote" },
+      ),
+    ).toBe("'it'\\''s'");
+  });
+
+  it("keeps unresolved placeholders as written", () => {
+    expect(
+      interpolate("${A} ${B}", { B: "${MISSING}" }, { encode: "url" }),
+    ).toBe("${A} ${MISSING}");
+  });
+
+  it("lets placeholders choose their encoder in pipelines", () => {
+    const options = { encode: "html", filters: true };
+    expect(
+      interpolate(
+        '{"name": "${NAME|json-string}", "html": "${NAME}", "raw": "${NAME|raw}"}',
+        { NAME: '"<x>"' },
+        options,
+      ),
+    ).toBe(
+      '{"name": "\\"<x>\\"", "html": "&quot;&lt;x&gt;&quot;", "raw": ""<x>""}',
+    );
+    expect(interpolate("${NAME|url}", { NAME: "a b" }, { coerce: true })).toBe(
+      "a%20b",
+    );
+  });
+
+  it("reads encoder pipelines with the encode option alone", () => {
+    expect(
+      interpolate(
+        "u=${PASS|raw}&p=${PASS}",
+        { PASS: "a@b/c" },
+        { encode: "url" },
+      ),
+    ).toBe("u=a@b/c&p=a%40b%2Fc");
+    // Other pipelines need the coerce or filters option
+    expect(
+      interpolate(
+        "${PORT|number} ${A|upper}",
+        { PORT: "80" },
+        { encode: "url" },
+      ),
+    ).toBe("${PORT|number} ${A|upper}");
+  });
+
+  it("applies filters before the encoder", () => {
+    expect(
+      interpolate(
+        "${NAME|upper}",
+        { NAME: "a&b" },
+        { encode: "html", filters: true },
+      ),
+    ).toBe("A&amp;B");
+    expect(
+      interpolate(
+        "${PORT|number}",
+        { PORT: "80" },
+        { encode: "url", coerce: true },
+      ),
+    ).toBe(80);
+  });
+
+  it("accepts encoder functions and registered encoders", () => {
+    const sql = (text: string) => text.replace(/'/g, "''");
+    expect(interpolate("'${V}'", { V: "O'Brien" }, { encode: sql })).toBe(
+      "'O''Brien'",
+    );
+    registerEncoder("test-sql", sql);
+    expect(
+      interpolate("'${V}'", { V: "O'Brien" }, { encode: "test-sql" }),
+    ).toBe("'O''Brien'");
+    expect(
+      interpolate("'${V|test-sql}'", { V: "O'Brien" }, { coerce: true }),
+    ).toBe("'O''Brien'");
+    expect(() => registerEncoder("not valid", sql)).toThrow(TypeError);
+  });
+
+  it("prefers filters of the same name", () => {
+    registerFilter("test-shadowed", () => "filter");
+    registerEncoder("test-shadowed", () => "encoder");
+    expect(
+      interpolate("${V|test-shadowed}", { V: "x" }, { filters: true }),
+    ).toBe("filter");
+    expect(
+      interpolate("${V|test-shadowed}", { V: "x" }, { coerce: true }),
+    ).toBe("encoder");
+  });
+
+  it("rejects unknown encoders", () => {
+    expect(() => interpolate("${V}", { V: "x" }, { encode: "nope" })).toThrow(
+      'Unknown encoder "nope"',
+    );
+  });
+
+  it("works with compiled templates and redaction", () => {
+    const template = compile("a=${A}", { encode: "url" });
+    expect(template({ A: "1 2" })).toBe("a=1%202");
+    const { result, redacted } = interpolateWithSecrets(
+      "${API_TOKEN}",
+      { API_TOKEN: "a/b" },
+      { encode: "url" },
+    );
+    expect(result).toBe("a%2Fb");
+    expect(redacted).toBe("***");
+  });
+});
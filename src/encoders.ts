@@ -0,0 +1,65 @@
+/**
+ * Escapes a substituted value for the context it is inserted into.
+ *
+ * @example
+ * const sql: EncoderFunction = (text) => text.replace(/'/g, "''");
+ */
+export type EncoderFunction = (text: string) => string;
+
+// Names encoders can be registered under, like filters
+const ENCODER_NAME_RE = /^[A-Za-z_][\w-]*$/;
+// Characters escaped by the markup encoders
+const HTML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+const XML_ENTITIES: Record<string, string> = {
+  ...HTML_ENTITIES,
+  "'": "&apos;",
+};
+
+// Encoders available to every interpolation, extended by registerEncoder()
+const encoders = new Map<string, EncoderFunction>([
+  ["raw", (text) => text],
+  ["url", (text) => encodeURIComponent(text)],
+  // Contents of a JSON string, without the quotes
+  ["json-string", (text) => JSON.stringify(text).slice(1, -1)],
+  // Contents of a single-quoted shell word: a quote closes, escapes and reopens
+  ["shell-single-quote", (text) => text.replace(/'/g, "'\\''")],
+  ["html", (text) => text.replace(/[&<>"']/g, (ch) => HTML_ENTITIES[ch])],
+  ["xml", (text) => text.replace(/[&<>"']/g, (ch) => XML_ENTITIES[ch])],
+]);
+
+/**
+ * Registers an encoder usable with the `encode` option and, like a filter, at
+ * the end of placeholder pipelines (`${NAME | encoder}`). Registering an
+ * existing name replaces the previous encoder.
+ *
+ * @param name Name of the encoder: letters, digits, `_` and `-`, not starting with a digit.
+ * @param encoder Function escaping the value.
+ * @throws {TypeError} When the name is invalid.
+ *
+ * @example
+ * registerEncoder('sql', (text) => text.replace(/'/g, "''"));
+ * interpolate("WHERE name = '${NAME}'", { NAME: "O'Brien" }, { encode: 'sql' });
+ * // Returns: "WHERE name = 'O''Brien'"
+ */
+export function registerEncoder(name: string, encoder: EncoderFunction): void {
+  if (!ENCODER_NAME_RE.test(name)) {
+    throw new TypeError(`Invalid encoder name "${name}"`);
+  }
+  encoders.set(name, encoder);
+}
+
+/**
+ * Returns the encoder registered under `name`, if any.
+ */
+function getEncoder(name: string): EncoderFunction | undefined {
+  return encoders.get(name);
+}
+
+/** @internal */
+export { getEncoder };
@@ -0,0 +1,375 @@
+/**
+ * A placeholder that could not be resolved because its variable is missing and
+ * no usable default was provided.
+ */
+export interface UnresolvedPlaceholder {
+  /** Variable name referenced by the placeholder. */
+  key: string;
+  /** Placeholder text as it remains in the output (e.g. `${DB_HOST}`). */
+  placeholder: string;
+  /**
+   * JSON-style path of the string containing the placeholder
+   * (e.g. `db.replicas[2].host`). Empty when the input itself is a string.
+   */
+  path: string;
+  /** Offset of the placeholder within the interpolated string. */
+  offset: number;
+}
+
+/**
+ * Base class for all errors raised by env-interpolation. Allows consumers to
+ * catch every library error with a single `instanceof` check.
+ */
+export class InterpolationError extends Error {
+  /**
+   * @param message Human readable description of the failure.
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Thrown in strict mode when one or more placeholders remain unresolved after
+ * the whole input has been processed. Every unresolved placeholder is listed so
+ * that all missing settings can be fixed at once.
+ *
+ * @example
+ * try {
+ *   interpolate({ db: { host: '${DB_HOST}' } }, {}, { strict: true });
+ * } catch (error) {
+ *   if (error instanceof UnresolvedPlaceholderError) {
+ *     error.unresolved; // [{ key: 'DB_HOST', path: 'db.host', offset: 0, ... }]
+ *   }
+ * }
+ */
+export class UnresolvedPlaceholderError extends InterpolationError {
+  readonly unresolved: UnresolvedPlaceholder[];
+
+  /**
+   * @param unresolved Every placeholder left unresolved, in traversal order.
+   */
+  constructor(unresolved: UnresolvedPlaceholder[]) {
+    const lines = unresolved.map(
+      ({ key, path, offset }) =>
+        `  - ${key} at ${path || "<root>"} (offset ${offset})`,
+    );
+    super(
+      `Unresolved placeholder${unresolved.length === 1 ? "" : "s"}:\n${lines.join("\n")}`,
+    );
+    this.unresolved = unresolved;
+  }
+}
+
+/**
+ * Thrown by {@link interpolateAsync} when a variable provider does not settle
+ * within its configured timeout.
+ */
+export class ProviderTimeoutError extends InterpolationError {
+  readonly provider: string;
+  readonly timeout: number;
+
+  /**
+   * @param provider Name of the provider that timed out.
+   * @param timeout Timeout that was exceeded, in milliseconds.
+   */
+  constructor(provider: string, timeout: number) {
+    super(`Variable provider "${provider}" timed out after ${timeout}ms`);
+    this.provider = provider;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Base class for errors raised while resolving a single placeholder. The error
+ * is first raised without a location and re-created with the path of the
+ * offending string once it reaches the traversal.
+ */
+export abstract class PlaceholderError extends InterpolationError {
+  readonly key: string;
+  readonly path: string;
+
+  /**
+   * @param key Variable name of the failing placeholder.
+   * @param detail Description of the failure, without location.
+   * @param path Path of the string containing the placeholder, if known.
+   */
+  protected constructor(key: string, detail: string, path: string) {
+    super(path ? `${detail} (at ${path})` : detail);
+    this.key = key;
+    this.path = path;
+  }
+
+  /**
+   * Returns a copy of this error located at `path`.
+   *
+   * @param path Path of the string containing the placeholder.
+   */
+  abstract withPath(path: string): PlaceholderError;
+}
+
+/**
+ * Thrown in POSIX mode when a `${VAR:?message}` or `${VAR?message}` placeholder
+ * refers to a variable that is not set (or empty, for `:?`).
+ *
+ * @example
+ * interpolate('${DB_HOST:?database host is required}', {}, { posix: true });
+ * // throws RequiredVariableError: DB_HOST: database host is required
+ */
+export class RequiredVariableError extends PlaceholderError {
+  readonly reason: string;
+
+  /**
+   * @param key Name of the required variable.
+   * @param reason Message from the placeholder, or the shell's default message.
+   * @param path Path of the string containing the placeholder, if known.
+   */
+  constructor(key: string, reason: string, path = "") {
+    super(key, `${key}: ${reason}`, path);
+    this.reason = reason;
+  }
+
+  /**
+   * @param path Path of the string containing the placeholder.
+   * @returns A copy of this error located at `path`.
+   */
+  withPath(path: string): RequiredVariableError {
+    return new RequiredVariableError(this.key, this.reason, path);
+  }
+}
+
+/**
+ * Thrown when coercion is enabled and a resolved value does not match the type
+ * hint of its placeholder (e.g. `${PORT|number}` with `PORT=abc`), or when the
+ * type hint itself is unknown.
+ */
+export class CoercionError extends PlaceholderError {
+  readonly type: string;
+  /** Text that failed to convert, unless it holds a secret. */
+  readonly value: string | undefined;
+  /** Whether the text was left out because it holds a secret. */
+  readonly secret: boolean;
+
+  /**
+   * @param key Variable name of the placeholder.
+   * @param type Requested type hint.
+   * @param value Resolved text that failed to convert; `undefined` for unknown hints.
+   * @param path Path of the string containing the placeholder, if known.
+   * @param secret Whether `value` holds a secret, to leave out of the error.
+   */
+  constructor(
+    key: string,
+    type: string,
+    value: string | undefined,
+    path = "",
+    secret = false,
+  ) {
+    super(
+      key,
+      secret
+        ? `Cannot coerce ${key} to ${type}`
+        : value === undefined
+          ? `Unknown type "${type}" for ${key}`
+          : `Cannot coerce ${key} to ${type}: ${JSON.stringify(value)}`,
+      path,
+    );
+    this.type = type;
+    this.value = secret ? undefined : value;
+    this.secret = secret;
+  }
+
+  /**
+   * @param path Path of the string containing the placeholder.
+   * @returns A copy of this error located at `path`.
+   */
+  withPath(path: string): CoercionError {
+    return new CoercionError(
+      this.key,
+      this.type,
+      this.value,
+      path,
+      this.secret,
+    );
+  }
+
+  /**
+   * @returns A copy of this error without the text that failed to convert.
+   */
+  redact(): CoercionError {
+    if (this.value === undefined) return this;
+    return new CoercionError(this.key, this.type, undefined, this.path, true);
+  }
+}
+
+/**
+ * Thrown when variables reference each other in a loop (e.g. `A=${B}` and
+ * `B=${A}`), which would otherwise expand forever.
+ */
+export class CycleError extends PlaceholderError {
+  /** Variables forming the cycle, starting and ending with the same name. */
+  readonly chain: string[];
+
+  /**
+   * @param chain Variables forming the cycle, e.g. `["A", "B", "A"]`.
+   * @param path Path of the string containing the placeholder, if known.
+   */
+  constructor(chain: string[], path = "") {
+    super(chain[0], `Circular variable reference: ${chain.join(" -> ")}`, path);
+    this.chain = chain;
+  }
+
+  /**
+   * @param path Path of the string containing the placeholder.
+   * @returns A copy of this error located at `path`.
+   */
+  withPath(path: string): CycleError {
+    return new CycleError(this.chain, path);
+  }
+}
+
+/**
+ * Thrown when a placeholder uses a filter that is not registered (e.g.
+ * `${NAME|shout}`), or when a filter fails on the resolved value.
+ */
+export class FilterError extends PlaceholderError {
+  readonly filter: string;
+  /** Why the filter failed, unless the reason may hold a secret. */
+  readonly reason: string | undefined;
+  /** Whether the reason was left out because the value holds a secret. */
+  readonly secret: boolean;
+
+  /**
+   * @param key Variable name of the placeholder.
+   * @param filter Name of the filter.
+   * @param reason Why the filter failed; `undefined` for unknown filters.
+   * @param path Path of the string containing the placeholder, if known.
+   * @param secret Whether the filtered value holds a secret, which `reason` may repeat.
+   */
+  constructor(
+    key: string,
+    filter: string,
+    reason: string | undefined,
+    path = "",
+    secret = false,
+  ) {
+    super(
+      key,
+      secret
+        ? `Filter "${filter}" failed for ${key}`
+        : reason === undefined
+          ? `Unknown filter "${filter}" for ${key}`
+          : `Filter "${filter}" failed for ${key}: ${reason}`,
+      path,
+    );
+    this.filter = filter;
+    this.reason = secret ? undefined : reason;
+    this.secret = secret;
+  }
+
+  /**
+   * @param path Path of the string containing the placeholder.
+   * @returns A copy of this error located at `path`.
+   */
+  withPath(path: string): FilterError {
+    return new FilterError(
+      this.key,
+      this.filter,
+      this.reason,
+      path,
+      this.secret,
+    );
+  }
+
+  /**
+   * @returns A copy of this error without the reason the filter failed.
+   */
+  redact(): FilterError {
+    if (this.reason === undefined) return this;
+    return new FilterError(this.key, this.filter, undefined, this.path, true);
+  }
+}
+
+/**
+ * Thrown when property names are interpolated and two keys of the same object
+ * resolve to the same name, unless another collision policy is chosen.
+ *
+ * @example
+ * interpolate({ '${A}': 1, '${B}': 2 }, { A: 'x', B: 'x' }, { keys: true });
+ * // throws KeyCollisionError: Keys "${A}" and "${B}" both resolve to "x"
+ */
+export class KeyCollisionError extends InterpolationError {
+  /** Name both keys resolve to. */
+  readonly property: string;
+  /** Colliding keys, as written. */
+  readonly keys: string[];
+  /** Path of the object containing the keys. */
+  readonly path: string;
+
+  /**
+   * @param property Name both keys resolve to.
+   * @param keys Colliding keys, as written.
+   * @param path Path of the object containing the keys.
+   */
+  constructor(property: string, keys: string[], path: string) {
+    const detail = `Keys ${keys.map((key) => JSON.stringify(key)).join(" and ")} both resolve to ${JSON.stringify(property)}`;
+    super(path ? `${detail} (at ${path})` : detail);
+    this.property = property;
+    this.keys = keys;
+    this.path = path;
+  }
+}
+
+/**
+ * Kind of problem reported by an environment schema:
+ * - `"missing"`: a required variable is not set
+ * - `"invalid-type"`: a value does not match the declared type
+ * - `"not-allowed"`: a value is not one of the allowed values
+ * - `"pattern-mismatch"`: a value does not match the declared pattern
+ * - `"undeclared"`: a placeholder uses a variable the schema does not declare
+ */
+export type SchemaViolationCode =
+  | "missing"
+  | "invalid-type"
+  | "not-allowed"
+  | "pattern-mismatch"
+  | "undeclared";
+
+/**
+ * A problem found while checking variables or placeholders against an
+ * environment schema.
+ */
+export interface SchemaViolation {
+  /** Variable name. */
+  key: string;
+  code: SchemaViolationCode;
+  message: string;
+  /** Offending value, for violations about a value that is not secret. */
+  value?: string;
+  /** Paths of the strings using an undeclared variable. */
+  paths?: string[];
+}
+
+/**
+ * Thrown when variables or placeholders do not match an environment schema.
+ * Every violation is listed so that the whole environment can be fixed at
+ * once.
+ *
+ * @example
+ * const schema = defineEnvSchema({ PORT: { type: 'number' } });
+ * schema.interpolate({ port: '${PORT}' }, { PORT: 'abc' });
+ * // throws EnvSchemaError: Invalid environment:
+ * //   - PORT must be a number, got "abc"
+ */
+export class EnvSchemaError extends InterpolationError {
+  readonly violations: SchemaViolation[];
+
+  /**
+   * @param violations Every violation found, variables first.
+   */
+  constructor(violations: SchemaViolation[]) {
+    const lines = violations.map(({ message }) => `  - ${message}`);
+    super(`Invalid environment:\n${lines.join("\n")}`);
+    this.violations = violations;
+  }
+}
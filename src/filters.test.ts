@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  CoercionError,
+  FilterError,
+  interpolate,
+  listPlaceholders,
+  registerFilter,
+} from "./index.js";
+
+describe("filter pipelines", () => {
+  const options = { filters: true };
+
+  it("applies filters in order", () => {
+    expect(
+      interpolate("${NAME | trim | upper}!", { NAME: "  ada " }, options),
+    ).toBe("ADA!");
+    expect(interpolate("${NAME|upper|lower}", { NAME: "Ada" }, options)).toBe(
+      "ada",
+    );
+  });
+
+  it("is disabled by default", () => {
+    expect(interpolate("${NAME|upper}", { NAME: "ada" })).toBe("${NAME|upper}");
+  });
+
+  it("applies filters to defaults", () => {
+    expect(interpolate("${USER|upper:guest}", {}, options)).toBe("GUEST");
+    expect(
+      interpolate("${GREETING|upper:hello ${USER:you}}", {}, options),
+    ).toBe("HELLO YOU");
+  });
+
+  it("provides encoding filters", () => {
+    const variables = { TEXT: "héllo wörld", B64: "aMOpbGxv", Q: "a%20b%26c" };
+    expect(interpolate("${TEXT|base64}", variables, options)).toBe(
+      "aMOpbGxvIHfDtnJsZA==",
+    );
+    expect(interpolate("${B64|base64decode}", variables, options)).toBe(
+      "héllo",
+    );
+    expect(interpolate("?q=${TEXT|urlencode}", variables, options)).toBe(
+      "?q=h%C3%A9llo%20w%C3%B6rld",
+    );
+    expect(interpolate("${Q|urldecode}", variables, options)).toBe("a b&c");
+  });
+
+  it("joins paths with interpolated arguments", () => {
+    expect(
+      interpolate(
+        "${DIR|join(${APP:app}, 'logs/', /out.log)}",
+        { DIR: "/var/" },
+        options,
+      ),
+    ).toBe("/var/app/logs/out.log");
+    expect(interpolate('${DIR|join("a,b", c):/tmp}', {}, options)).toBe(
+      "/tmp/a,b/c",
+    );
+  });
+
+  it("ends pipelines with type hints", () => {
+    expect(
+      interpolate(
+        { port: "${PORT|trim|number}", url: "http://h:${PORT|trim|number}" },
+        { PORT: " 8080 " },
+        options,
+      ),
+    ).toEqual({ port: 8080, url: "http://h:8080" });
+    expect(() =>
+      interpolate("${PORT|upper|number}", { PORT: "x" }, options),
+    ).toThrow(CoercionError);
+  });
+
+  it("replaces a lone placeholder with the result of its filters", () => {
+    const split = (value: unknown, separator: string) =>
+      String(value).split(separator);
+    expect(
+      interpolate(
+        { hosts: "${HOSTS|split(',')}" },
+        { HOSTS: "a,b" },
+        { filters: { split } },
+      ),
+    ).toEqual({ hosts: ["a", "b"] });
+  });
+
+  it("uses registered filters and per-call filters", () => {
+    registerFilter("test-repeat", (value, times) =>
+      String(value).repeat(Number(times)),
+    );
+    expect(interpolate("${SEP|test-repeat(3)}", { SEP: "-" }, options)).toBe(
+      "---",
+    );
+    // Per-call filters take precedence over registered ones
+    expect(
+      interpolate(
+        "${SEP|test-repeat(3)}",
+        { SEP: "-" },
+        { filters: { "test-repeat": () => "custom" } },
+      ),
+    ).toBe("custom");
+  });
+
+  it("rejects invalid or reserved filter names", () => {
+    expect(() => registerFilter("1st", String)).toThrow(TypeError);
+    expect(() => registerFilter("number", String)).toThrow(
+      'The filter name "number" is reserved for type hints',
+    );
+  });
+
+  it("reports unknown and failing filters with their location", () => {
+    try {
+      interpolate({ a: ["${NAME|shout}"] }, { NAME: "x" }, options);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(FilterError);
+      expect((error as FilterError).filter).toBe("shout");
+      expect((error as FilterError).message).toBe(
+        'Unknown filter "shout" for NAME (at a[0])',
+      );
+    }
+    expect(() =>
+      interpolate("${B64|base64decode}", { B64: "%%%" }, options),
+    ).toThrow(/^Filter "base64decode" failed for B64: /);
+  });
+
+  it("keeps coercion errors for unknown hints without filters", () => {
+    expect(() =>
+      interpolate("${A|shout}", { A: "x" }, { coerce: true }),
+    ).toThrow(CoercionError);
+  });
+
+  it("leaves malformed pipelines untouched", () => {
+    const input = "${A|upper(} ${A|} ${A|up per}";
+    expect(interpolate(input, { A: "x" }, options)).toBe(input);
+  });
+
+  it("lists placeholders used in filter arguments", () => {
+    expect(
+      listPlaceholders("${DIR|join(${APP})}", options).map((p) => p.key),
+    ).toEqual(["DIR", "APP"]);
+  });
+});
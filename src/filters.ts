@@ -0,0 +1,211 @@
+import { getEncoder } from "./encoders.js";
+import { CoercionError, FilterError, InterpolationError } from "./errors.js";
+
+/**
+ * Transforms the value of a placeholder. Receives the current value of the
+ * pipeline (the resolved text, or the result of the previous filter) followed
+ * by the arguments written in the placeholder, already interpolated.
+ *
+ * @example
+ * const repeat: FilterFunction = (value, times) =>
+ *   String(value).repeat(Number(times));
+ */
+export type FilterFunction = (value: unknown, ...args: string[]) => unknown;
+
+/**
+ * A filter applied by a placeholder, as written in its pipeline: `name` or
+ * `name(arg1, arg2)`. Arguments are raw and may contain placeholders.
+ */
+export interface FilterCall {
+  name: string;
+  args: string[];
+}
+
+/**
+ * Types a placeholder value can be coerced to.
+ */
+type TypeHint = "string" | "number" | "boolean" | "json";
+
+// Type hints, usable as the last filters of a pipeline
+const TYPE_HINTS = new Map<string, TypeHint>([
+  ["string", "string"],
+  ["number", "number"],
+  ["bool", "boolean"],
+  ["boolean", "boolean"],
+  ["json", "json"],
+]);
+// Accepted spellings of booleans (compared case-insensitively)
+const BOOLEAN_VALUES = new Map<string, boolean>([
+  ["true", true],
+  ["false", false],
+  ["1", true],
+  ["0", false],
+  ["yes", true],
+  ["no", false],
+  ["on", true],
+  ["off", false],
+]);
+// Names filters can be registered under
+const FILTER_NAME_RE = /^[A-Za-z_][\w-]*$/;
+
+/**
+ * Encodes text as UTF-8 base64 without relying on Node's `Buffer`.
+ */
+function encodeBase64(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes UTF-8 base64 text without relying on Node's `Buffer`.
+ */
+function decodeBase64(text: string): string {
+  const bytes = Uint8Array.from(atob(text.trim()), (ch) => ch.charCodeAt(0));
+  return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+}
+
+/**
+ * Joins path segments with single slashes.
+ */
+function joinPath(...segments: string[]): string {
+  return segments.reduce((path, segment) =>
+    path === ""
+      ? segment
+      : `${path.replace(/\/+$/, "")}/${segment.replace(/^\/+/, "")}`,
+  );
+}
+
+// Filters available to every pipeline, extended by registerFilter()
+const registry = new Map<string, FilterFunction>([
+  ["trim", (value) => String(value).trim()],
+  ["upper", (value) => String(value).toUpperCase()],
+  ["lower", (value) => String(value).toLowerCase()],
+  ["base64", (value) => encodeBase64(String(value))],
+  ["base64decode", (value) => decodeBase64(String(value))],
+  ["urlencode", (value) => encodeURIComponent(String(value))],
+  ["urldecode", (value) => decodeURIComponent(String(value))],
+  ["join", (value, ...segments) => joinPath(String(value), ...segments)],
+]);
+
+/**
+ * Registers a filter usable in every placeholder pipeline
+ * (`${NAME | filter(arg)}`) when filters are enabled. Registering an existing
+ * name replaces the previous filter.
+ *
+ * @param name Name of the filter: letters, digits, `_` and `-`, not starting with a digit.
+ * @param filter Function transforming the value.
+ * @throws {TypeError} When the name is invalid or reserved for a type hint.
+ *
+ * @example
+ * registerFilter('repeat', (value, times) => String(value).repeat(Number(times)));
+ * interpolate('${SEP | repeat(3)}', { SEP: '-' }, { filters: true });
+ * // Returns: '---'
+ */
+export function registerFilter(name: string, filter: FilterFunction): void {
+  if (!FILTER_NAME_RE.test(name)) {
+    throw new TypeError(`Invalid filter name "${name}"`);
+  }
+  if (TYPE_HINTS.has(name)) {
+    throw new TypeError(`The filter name "${name}" is reserved for type hints`);
+  }
+  registry.set(name, filter);
+}
+
+/**
+ * Converts resolved text to the type requested by a placeholder hint.
+ *
+ * @param key Variable name, used in error messages.
+ * @param text Fully resolved text of the placeholder.
+ * @param type Requested type hint.
+ * @returns The typed value.
+ * @throws {CoercionError} When the hint is unknown or the text does not match it.
+ */
+function coerceValue(key: string, text: string, type: string): unknown {
+  switch (TYPE_HINTS.get(type)) {
+    case "string":
+      return text;
+    case "number": {
+      const value = text.trim() === "" ? NaN : Number(text);
+      if (!Number.isFinite(value)) throw new CoercionError(key, type, text);
+      return value;
+    }
+    case "boolean": {
+      const value = BOOLEAN_VALUES.get(text.trim().toLowerCase());
+      if (value === undefined) throw new CoercionError(key, type, text);
+      return value;
+    }
+    case "json":
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw new CoercionError(key, type, text);
+      }
+    default:
+      throw new CoercionError(key, type, undefined);
+  }
+}
+
+/**
+ * Canonical text form of a filtered or coerced value, used when the
+ * placeholder is part of a larger string.
+ */
+function stringifyValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Runs the filters of a placeholder pipeline on its resolved text.
+ *
+ * Type hints are always available and convert the value like coercion mode
+ * does, and so are encoders. Other filters come from the registry and the
+ * `filters` option, and take precedence over encoders; when that option is
+ * off, any other name is reported as an unknown type hint.
+ *
+ * @param key Variable name, used in error messages.
+ * @param text Resolved text of the placeholder.
+ * @param pipeline Filters to apply, in order.
+ * @param filters The `filters` option of the interpolation.
+ * @param expandArg Interpolates a raw filter argument.
+ * @returns The transformed value.
+ * @throws {FilterError} When a filter is unknown or fails.
+ * @throws {CoercionError} When a type hint does not match the value.
+ */
+function applyFilters(
+  key: string,
+  text: string,
+  pipeline: FilterCall[],
+  filters: boolean | Record<string, FilterFunction> | undefined,
+  expandArg: (arg: string) => string,
+): unknown {
+  let value: unknown = text;
+  for (const { name, args } of pipeline) {
+    if (TYPE_HINTS.has(name)) {
+      value = coerceValue(key, stringifyValue(value), name);
+      continue;
+    }
+    const encoder = getEncoder(name);
+    if (!filters && !encoder) throw new CoercionError(key, name, undefined);
+
+    const custom = typeof filters === "object" ? filters : undefined;
+    const filter =
+      (custom && Object.hasOwn(custom, name) ? custom[name] : undefined) ??
+      (filters ? registry.get(name) : undefined) ??
+      (encoder && ((value: unknown) => encoder(stringifyValue(value))));
+    if (!filter) throw new FilterError(key, name, undefined);
+    const expanded = args.map(expandArg);
+    try {
+      value = filter(value, ...expanded);
+    } catch (error) {
+      if (error instanceof InterpolationError) throw error;
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new FilterError(key, name, reason);
+    }
+  }
+  return value;
+}
+
+/** @internal */
+export { applyFilters, coerceValue, stringifyValue };
@@ -0,0 +1,366 @@
+import { stringifyValue } from "./filters.js";
+import { valueAt, type Input, type PathSegment } from "./interpolate.js";
+
+/**
+ * Reads and writes one file format for {@link interpolateFile}. Only the
+ * string values of the parsed structure are interpolated.
+ *
+ * @example
+ * import YAML from 'yaml';
+ *
+ * const yaml: FormatAdapter = {
+ *   extensions: ['.yaml', '.yml'],
+ *   parse: (text) => YAML.parse(text),
+ *   stringify: (value) => YAML.stringify(value),
+ * };
+ */
+export interface FormatAdapter {
+  /** File extensions of the format, with the dot (e.g. `.json`). */
+  extensions: readonly string[];
+  /** Parses the text of a file into objects, arrays and strings. */
+  parse(text: string): Input;
+  /**
+   * Writes the interpolated structure back. Receives the original text too, so
+   * that adapters can keep comments and layout.
+   */
+  stringify(value: unknown, text: string): string;
+}
+
+// Container being scanned by rewriteJson, with the position of its current value
+interface JsonFrame {
+  array: boolean;
+  index: number;
+  key?: string;
+  expectKey: boolean;
+}
+
+// Indentation, key, separator and rest of an INI assignment
+const INI_ASSIGNMENT_RE = /^(\s*)([^=\s;#[][^=]*?)(\s*=\s*)([^\n]*)$/;
+// Inline comments start with `;` or `#` after whitespace
+const INI_COMMENT_RE = /\s[;#]/;
+const INI_SECTION_RE = /^\s*\[([^\]]+)\]/;
+// INI values that must be quoted to read back the same
+const INI_QUOTED_RE = /^\s|\s$|[\r\n]|^["']|^$/;
+
+/**
+ * Returns the offset following the JSON string starting at `start`.
+ */
+function stringEnd(text: string, start: number): number {
+  let i = start + 1;
+  while (i < text.length && text[i] !== '"') i += text[i] === "\\" ? 2 : 1;
+  return i + 1;
+}
+
+/**
+ * Returns the offset following the comment starting at `start`, or `start`
+ * when there is no comment there.
+ */
+function commentEnd(text: string, start: number): number {
+  if (text.startsWith("//", start)) {
+    const end = text.indexOf("\n", start);
+    return end === -1 ? text.length : end;
+  }
+  if (text.startsWith("/*", start)) {
+    const end = text.indexOf("*/", start + 2);
+    return end === -1 ? text.length : end + 2;
+  }
+  return start;
+}
+
+/**
+ * Removes the comments and trailing commas of JSONC text, leaving JSON.
+ */
+function stripJsonc(text: string): string {
+  let out = "";
+  for (let i = 0; i < text.length; ) {
+    if (text[i] === '"') {
+      const end = stringEnd(text, i);
+      out += text.slice(i, end);
+      i = end;
+      continue;
+    }
+    const end = commentEnd(text, i);
+    if (end > i) {
+      i = end;
+      continue;
+    }
+    if (text[i] === ",") {
+      // Drop the comma when only whitespace and comments precede the bracket
+      let next = i + 1;
+      while (next < text.length) {
+        const skipped = /\s/.test(text[next])
+          ? next + 1
+          : commentEnd(text, next);
+        if (skipped === next) break;
+        next = skipped;
+      }
+      if (text[next] === "}" || text[next] === "]") {
+        i++;
+        continue;
+      }
+    }
+    out += text[i++];
+  }
+  return out;
+}
+
+/**
+ * Writes the string values of JSON or JSONC text again with their value in
+ * `value`, found by path. Everything else, comments and layout included, is
+ * kept as written, and so are strings whose value did not change.
+ */
+function rewriteJson(value: unknown, text: string): string {
+  const stack: JsonFrame[] = [];
+  let out = "";
+  let copied = 0;
+
+  for (let i = 0; i < text.length; ) {
+    const ch = text[i];
+    const top = stack.at(-1);
+    if (ch === '"') {
+      const end = stringEnd(text, i);
+      const literal = text.slice(i, end);
+      if (top?.expectKey) {
+        top.key = JSON.parse(literal);
+        top.expectKey = false;
+      } else {
+        const path: PathSegment[] = stack.map((frame) =>
+          frame.array ? frame.index : (frame.key as string),
+        );
+        const replaced = valueAt(value, path);
+        if (replaced !== undefined && replaced !== JSON.parse(literal)) {
+          out += text.slice(copied, i) + JSON.stringify(replaced);
+          copied = end;
+        }
+      }
+      i = end;
+      continue;
+    }
+    const end = commentEnd(text, i);
+    if (end > i) {
+      i = end;
+      continue;
+    }
+    if (ch === "{" || ch === "[") {
+      stack.push({ array: ch === "[", index: 0, expectKey: ch === "{" });
+    } else if (ch === "}" || ch === "]") {
+      stack.pop();
+    } else if (ch === "," && top) {
+      if (top.array) top.index++;
+      else top.expectKey = true;
+    }
+    i++;
+  }
+  return out + text.slice(copied);
+}
+
+/**
+ * Splits the text following the separator of an INI assignment into the raw
+ * value and the trailing whitespace and inline comment. `spaced` tells whether
+ * the separator ends with whitespace, so that a comment can start the text.
+ * Quoted values end at their closing quote.
+ */
+function splitIniValue(rest: string, spaced: boolean): [string, string] {
+  let start = 0;
+  if (rest[0] === '"') start = stringEnd(rest, 0);
+  else if (rest[0] === "'") start = rest.indexOf("'", 1) + 1;
+  // Unclosed quotes are part of an unquoted value
+  if (start > rest.length) start = 0;
+  const prefix = start > 0 || spaced ? " " : "_";
+  const index = (prefix + rest.slice(start)).search(INI_COMMENT_RE);
+  const raw = rest
+    .slice(0, index === -1 ? rest.length : start + index)
+    .trimEnd();
+  return [raw, rest.slice(raw.length)];
+}
+
+/**
+ * Reads the value of an INI assignment, removing its quotes.
+ */
+function parseIniValue(raw: string): string {
+  if (raw.length >= 2 && raw[0] === raw.at(-1)) {
+    if (raw[0] === "'") return raw.slice(1, -1);
+    if (raw[0] === '"') {
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return raw.slice(1, -1);
+      }
+    }
+  }
+  return raw;
+}
+
+/**
+ * Writes the value of an INI assignment, quoted like the original value when
+ * possible, or double-quoted when it would not read back the same. `spaced`
+ * tells whether the separator ends with whitespace (see {@link splitIniValue}).
+ */
+function formatIniValue(
+  value: string,
+  original: string,
+  spaced: boolean,
+): string {
+  const quoted = parseIniValue(original) !== original;
+  if (quoted && original[0] === "'" && !/['\r\n]/.test(value)) {
+    return `'${value}'`;
+  }
+  if (
+    quoted ||
+    INI_QUOTED_RE.test(value) ||
+    INI_COMMENT_RE.test((spaced ? " " : "_") + value)
+  ) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/**
+ * Calls `visit` with the section, key and raw value of every assignment of
+ * INI text, along with the text before and after the value. Keys before the
+ * first section have no section.
+ */
+function scanIni(
+  text: string,
+  visit: (
+    section: string | undefined,
+    key: string,
+    raw: string,
+    head: string,
+    trailing: string,
+  ) => string | void,
+): string {
+  let section: string | undefined;
+  return text
+    .split("\n")
+    .map((line) => {
+      const trimmed = line.trimStart();
+      if (trimmed.startsWith(";") || trimmed.startsWith("#")) return line;
+      const header = INI_SECTION_RE.exec(line);
+      if (header) {
+        section = header[1].trim();
+        return line;
+      }
+      const match = INI_ASSIGNMENT_RE.exec(line);
+      if (!match) return line;
+      const [, indent, key, separator, rest] = match;
+      const [raw, trailing] = splitIniValue(rest, /\s$/.test(separator));
+      return (
+        visit(section, key, raw, indent + key + separator, trailing) ?? line
+      );
+    })
+    .join("\n");
+}
+
+const jsonAdapter: FormatAdapter = {
+  extensions: [".json"],
+  parse: (text) => JSON.parse(text),
+  stringify: rewriteJson,
+};
+
+const jsoncAdapter: FormatAdapter = {
+  extensions: [".jsonc"],
+  parse: (text) => JSON.parse(stripJsonc(text)),
+  stringify: rewriteJson,
+};
+
+const iniAdapter: FormatAdapter = {
+  extensions: [".ini"],
+  parse(text) {
+    const result: Record<string, unknown> = Object.create(null);
+    scanIni(text, (section, key, raw) => {
+      let target = result;
+      if (section !== undefined) {
+        if (typeof result[section] === "string") {
+          throw new SyntaxError(
+            `INI section [${section}] has the name of the key "${section}"`,
+          );
+        }
+        result[section] ??= Object.create(null);
+        target = result[section] as Record<string, unknown>;
+      }
+      target[key] = parseIniValue(raw);
+    });
+    return result;
+  },
+  stringify(value, text) {
+    return scanIni(text, (section, key, raw, head, trailing) => {
+      const path = section === undefined ? [key] : [section, key];
+      const replaced = valueAt(value, path);
+      if (replaced === undefined || replaced === parseIniValue(raw)) return;
+      // A comment following an empty value needs whitespace before it
+      const gap = /^[;#]/.test(trailing) ? " " : "";
+      return `${head}${formatIniValue(stringifyValue(replaced), raw, /\s$/.test(head))}${gap}${trailing}`;
+    });
+  },
+};
+
+// Formats usable by interpolateFile(), extended by registerFormat()
+const formats = new Map<string, FormatAdapter>([
+  ["json", jsonAdapter],
+  ["jsonc", jsoncAdapter],
+  ["ini", iniAdapter],
+]);
+
+/**
+ * Registers a file format for {@link interpolateFile}, e.g. YAML or TOML
+ * with the parser of your choice. Registering an existing name replaces the
+ * previous adapter, which also lets you change how JSON or INI files are read.
+ *
+ * @param name Name of the format, usable as the `format` option.
+ * @param adapter Parser and serializer of the format.
+ * @throws {TypeError} When the name is empty or an extension does not start with a dot.
+ *
+ * @example
+ * import TOML from 'smol-toml';
+ *
+ * registerFormat('toml', {
+ *   extensions: ['.toml'],
+ *   parse: (text) => TOML.parse(text),
+ *   stringify: (value) => TOML.stringify(value as Record<string, unknown>),
+ * });
+ * interpolateFile('config.toml', process.env);
+ */
+export function registerFormat(name: string, adapter: FormatAdapter): void {
+  if (!name) throw new TypeError("Format names must not be empty");
+  for (const extension of adapter.extensions) {
+    if (!extension.startsWith(".")) {
+      throw new TypeError(
+        `Invalid extension "${extension}" for format "${name}"`,
+      );
+    }
+  }
+  formats.set(name, adapter);
+}
+
+/**
+ * Returns the adapter registered under `name`, or the last one registered for
+ * `extension` when no name is given.
+ *
+ * @throws {TypeError} When no adapter matches.
+ */
+function findFormat(
+  name: string | undefined,
+  extension: string,
+): FormatAdapter {
+  if (name !== undefined) {
+    const adapter = formats.get(name);
+    if (!adapter) throw new TypeError(`Unknown format "${name}"`);
+    return adapter;
+  }
+  const wanted = extension.toLowerCase();
+  const adapter = [...formats.values()]
+    .reverse()
+    .find(({ extensions }) =>
+      extensions.some((ext) => ext.toLowerCase() === wanted),
+    );
+  if (!adapter) {
+    throw new TypeError(
+      `No format registered for "${extension}" files; pass the format option`,
+    );
+  }
+  return adapter;
+}
+
+/** @internal */
+export { findFormat };
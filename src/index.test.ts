@@ -1,6 +1,36 @@
 import { describe, expect, expectTypeOf, it } from "vitest";
 
-import { interpolate, replace, findNextPlaceholder } from "./index.js";
+import {
+  createResolver,
+  interpolate,
+  interpolateAsync,
+  replace,
+  findNextPlaceholder,
+  InterpolationError,
+  CoercionError,
+  CycleError,
+  KeyCollisionError,
+  ProviderTimeoutError,
+  RequiredVariableError,
+  UnresolvedPlaceholderError,
+  type NameGrammar,
+  type ObjectVisitor,
+  type ProviderFunction,
+  type SyntaxDialect,
+} from "./index.js";
+
+/**
+ * In-memory provider recording the batches of keys it was asked for.
+ */
+function memoryProvider(
+  values: Record<string, string>,
+  calls: string[][] = [],
+): ProviderFunction {
+  return async (keys) => {
+    calls.push(keys);
+    return Object.fromEntries(keys.map((key) => [key, values[key]]));
+  };
+}
 
 type NestedRefRecord = Record<string, unknown> & { ref: NestedRefRecord };
 type LinkedRecord = Record<string, unknown> & { next: LinkedRecord };
@@ -499,12 +529,12 @@ describe("infinite loop protection", () => {
   it("should not enter an infinite loop with self-referential variables", () => {
     const input = "Value: ${A:${A}}";
     const result = interpolate(input);
-    // The function should stop after MAX_INTERPOLATION_PASSES and return the processed string
+    // The default is expanded once; the nested placeholder stays unresolved
     expect(result).toBe("Value: ${A}");
   });
 
-  it("should stop after MAX_INTERPOLATION_PASSES with deeply nested variables", () => {
-    // Create a chain that will require more than 10 passes to fully resolve
+  it("should fully resolve deeply nested variables", () => {
+    // Create a chain that is more than 10 levels deep
     const variables = {
       LEVEL1: "${LEVEL2:default}",
       LEVEL2: "${LEVEL3:default}",
@@ -520,10 +550,11 @@ describe("infinite loop protection", () => {
       LEVEL12: "final_value",
     };
     const input = "Value: ${LEVEL1}";
-    const result = interpolate(input, variables);
-    // Should stop before fully resolving due to MAX_INTERPOLATION_PASSES limit
-    expect(result).not.toBe("Value: final_value");
-    expect(result).toMatch(/Value: \$\{LEVEL\d+:/);
+    expect(interpolate(input, variables)).toBe("Value: final_value");
+    // An explicit maxPasses still stops before fully resolving
+    const limited = interpolate(input, variables, { maxPasses: 10 });
+    expect(limited).not.toBe("Value: final_value");
+    expect(limited).toMatch(/Value: \$\{LEVEL\d+:/);
   });
 
   it("should resolve more than 10 independent placeholders", () => {
@@ -645,12 +676,16 @@ describe("enhanced edge cases and performance", () => {
       nestedDefault = nextVar;
     }
 
-    // Test deep nesting with MAX_INTERPOLATION_PASSES limit
+    // Deep nesting resolves without tuning maxPasses
     const result = interpolate("${NESTED_1:fallback}", variables);
+    expect(result).toBe("final_value");
 
-    // Due to MAX_INTERPOLATION_PASSES limit, this should not fully resolve
-    expect(result).not.toBe("final_value");
-    expect(result).toMatch(/\${NESTED_\d+:/); // Should contain unresolved placeholder
+    // With an explicit maxPasses limit, this should not fully resolve
+    const limited = interpolate("${NESTED_1:fallback}", variables, {
+      maxPasses: 10,
+    });
+    expect(limited).not.toBe("final_value");
+    expect(limited).toMatch(/\${NESTED_\d+:/); // Should contain unresolved placeholder
   });
 
   it("performance with many independent placeholders", () => {
@@ -739,6 +774,34 @@ describe("configurable maxPasses", () => {
     expect(result3).toBe("default");
   });
 
+  it("reports the placeholders left by maxPasses in strict mode", () => {
+    expect(() =>
+      interpolate("${A}", { A: "${B}" }, { strict: true, maxPasses: 1 }),
+    ).toThrow(
+      new UnresolvedPlaceholderError([
+        { key: "B", placeholder: "${B}", path: "", offset: 0 },
+      ]),
+    );
+    expect(() =>
+      interpolate("\\${A}", {}, { strict: true, maxPasses: 0 }),
+    ).not.toThrow();
+  });
+
+  it("stops expanding deep nesting within the call stack", () => {
+    const depth = 5000;
+    const nested = "${A:".repeat(depth) + "x" + "}".repeat(depth);
+    const partial =
+      "${A:".repeat(depth - 1000) + "x" + "}".repeat(depth - 1000);
+    expect(interpolate(nested, {})).toBe(partial);
+    const chain = Object.fromEntries(
+      Array.from({ length: depth }, (_, i) => [`V${i}`, `\${V${i + 1}}`]),
+    );
+    expect(interpolate("${V0}", chain)).toBe("${V1000}");
+    expect(() => interpolate("${V0}", chain, { strict: true })).toThrow(
+      UnresolvedPlaceholderError,
+    );
+  });
+
   it("maxPasses = 0 prevents any interpolation", () => {
     const result = interpolate(
       "${VAR:default}",
@@ -775,9 +838,10 @@ describe("configurable maxPasses", () => {
     const result1 = interpolate("${A}", variables, { maxPasses: 1 });
     expect(result1).toBe("${A:fallback}");
 
-    // With maxPasses = 2, it stays the same (A is still defined, so fallback won't be used)
-    const result2 = interpolate("${A}", variables, { maxPasses: 2 });
-    expect(result2).toBe("${A:fallback}");
+    // With maxPasses = 2, A is expanded inside its own value
+    expect(() => interpolate("${A}", variables, { maxPasses: 2 })).toThrow(
+      CycleError,
+    );
 
     // To test actual fallback, we need a case where the variable becomes undefined
     const result3 = interpolate("${B:${A:fallback}}", {}, { maxPasses: 2 });
@@ -978,3 +1042,1222 @@ describe("cycle-safe object traversal", () => {
     expect(result.self).toBe(result); // Cycle preserved even without interpolation
   });
 });
+
+describe("strict mode", () => {
+  it("returns the interpolated value when everything resolves", () => {
+    const result = interpolate(
+      { host: "${HOST}", port: "${PORT:5432}" },
+      { HOST: "db" },
+      { strict: true },
+    );
+    expect(result).toEqual({ host: "db", port: "5432" });
+  });
+
+  it("throws a typed error for a missing variable without default", () => {
+    expect(() => interpolate("Hello ${NAME}!", {}, { strict: true })).toThrow(
+      UnresolvedPlaceholderError,
+    );
+  });
+
+  it("treats empty defaults as unresolved", () => {
+    try {
+      interpolate("${NAME:}", {}, { strict: true });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(InterpolationError);
+      expect((error as UnresolvedPlaceholderError).unresolved).toEqual([
+        { key: "NAME", placeholder: "${NAME:}", path: "", offset: 0 },
+      ]);
+    }
+  });
+
+  it("collects every unresolved placeholder with its path and offset", () => {
+    const config = {
+      db: {
+        user: "${DB_USER}",
+        replicas: [
+          { host: "a" },
+          { host: "b" },
+          { host: "${HOST:localhost}:${PORT}" },
+        ],
+      },
+      "x-api-key": "key=${API_KEY:}",
+    };
+
+    try {
+      interpolate(config, { HOST: "replica" }, { strict: true });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(UnresolvedPlaceholderError);
+      const { unresolved, message } = error as UnresolvedPlaceholderError;
+      expect(unresolved).toEqual([
+        {
+          key: "DB_USER",
+          placeholder: "${DB_USER}",
+          path: "db.user",
+          offset: 0,
+        },
+        {
+          key: "PORT",
+          placeholder: "${PORT}",
+          path: "db.replicas[2].host",
+          offset: 8,
+        },
+        {
+          key: "API_KEY",
+          placeholder: "${API_KEY:}",
+          path: '["x-api-key"]',
+          offset: 4,
+        },
+      ]);
+      expect(message).toContain("DB_USER at db.user (offset 0)");
+      expect(message).toContain("PORT at db.replicas[2].host (offset 8)");
+    }
+  });
+
+  it("reports placeholders revealed by nested defaults", () => {
+    expect(() =>
+      interpolate("${OUTER:${INNER}}", {}, { strict: true }),
+    ).toThrow(/INNER at <root> \(offset 0\)/);
+  });
+
+  it("ignores escaped and invalid placeholders", () => {
+    const result = interpolate(
+      ["\\${ESCAPED}", "${invalid-name}"],
+      {},
+      { strict: true },
+    );
+    expect(result).toEqual(["${ESCAPED}", "${invalid-name}"]);
+  });
+
+  it("leaves unresolved placeholders in place when strict is disabled", () => {
+    expect(interpolate("${MISSING}", {}, { strict: false })).toBe("${MISSING}");
+  });
+});
+
+describe("async interpolation", () => {
+  it("resolves placeholders from an async provider", async () => {
+    const result = await interpolateAsync(
+      { db: { host: "${DB_HOST}", port: "${DB_PORT:5432}" } },
+      memoryProvider({ DB_HOST: "db.internal" }),
+    );
+    expect(result).toEqual({ db: { host: "db.internal", port: "5432" } });
+  });
+
+  it("batches and de-duplicates lookups across the structure", async () => {
+    const calls: string[][] = [];
+    await interpolateAsync(
+      ["${A}", { nested: "${B} ${A}" }, ["${B:x}", "${C}"]],
+      memoryProvider({ A: "1", B: "2", C: "3" }, calls),
+    );
+    expect(calls).toEqual([["A", "B", "C"]]);
+  });
+
+  it("asks later providers only for keys the earlier ones did not define", async () => {
+    const first: string[][] = [];
+    const second: string[][] = [];
+    const result = await interpolateAsync("${A}-${B}-${C}", [
+      memoryProvider({ A: "first" }, first),
+      {
+        name: "fallback",
+        resolve: memoryProvider({ A: "x", B: "second" }, second),
+      },
+    ]);
+    expect(result).toBe("first-second-${C}");
+    expect(first).toEqual([["A", "B", "C"]]);
+    expect(second).toEqual([["B", "C"]]);
+  });
+
+  it("accepts providers returning maps or plain objects synchronously", async () => {
+    const result = await interpolateAsync("${A} ${B}", [
+      () => new Map([["A", "map"]]),
+      () => ({ B: "object" }),
+    ]);
+    expect(result).toBe("map object");
+  });
+
+  it("resolves keys revealed by nested defaults in later passes", async () => {
+    const calls: string[][] = [];
+    const result = await interpolateAsync(
+      "${OUTER:${MIDDLE:${INNER:fallback}}}",
+      memoryProvider({ INNER: "inner" }, calls),
+    );
+    expect(result).toBe("inner");
+    expect(calls).toEqual([["OUTER", "MIDDLE", "INNER"]]);
+  });
+
+  it("resolves placeholders contained in provided values", async () => {
+    const calls: string[][] = [];
+    const result = await interpolateAsync(
+      "${URL}",
+      memoryProvider(
+        { URL: "https://${HOST}/api", HOST: "example.com" },
+        calls,
+      ),
+    );
+    expect(result).toBe("https://example.com/api");
+    expect(calls).toEqual([["URL"], ["HOST"]]);
+  });
+
+  it("does not ask again for keys that no provider defines", async () => {
+    const calls: string[][] = [];
+    const result = await interpolateAsync(
+      ["${MISSING}", "${MISSING:default}"],
+      memoryProvider({}, calls),
+    );
+    expect(result).toEqual(["${MISSING}", "default"]);
+    expect(calls).toEqual([["MISSING"]]);
+  });
+
+  it("rejects with a timeout error when a provider is too slow", async () => {
+    const slow = {
+      name: "vault",
+      timeout: 10,
+      resolve: () => new Promise<Record<string, string>>(() => {}),
+    };
+    await expect(interpolateAsync("${SECRET}", slow)).rejects.toThrow(
+      ProviderTimeoutError,
+    );
+    await expect(interpolateAsync("${SECRET}", slow)).rejects.toThrow(
+      'Variable provider "vault" timed out after 10ms',
+    );
+  });
+
+  it("applies the default timeout to providers without their own", async () => {
+    const slow = () => new Promise<Record<string, string>>(() => {});
+    await expect(
+      interpolateAsync("${SECRET}", slow, { timeout: 5 }),
+    ).rejects.toMatchObject({ provider: "provider #0", timeout: 5 });
+  });
+
+  it("propagates provider failures", async () => {
+    const failing = async () => {
+      throw new Error("connection refused");
+    };
+    await expect(interpolateAsync("${SECRET}", failing)).rejects.toThrow(
+      "connection refused",
+    );
+  });
+
+  it("supports strict mode", async () => {
+    await expect(
+      interpolateAsync({ key: "${MISSING}" }, memoryProvider({}), {
+        strict: true,
+      }),
+    ).rejects.toThrow(UnresolvedPlaceholderError);
+  });
+});
+
+describe("layered variable sources", () => {
+  it("accepts a Map as the variables source", () => {
+    const result = interpolate("${NAME:Guest}", new Map([["NAME", "Ada"]]));
+    expect(result).toBe("Ada");
+  });
+
+  it("accepts a lookup function as the variables source", () => {
+    const result = interpolate("${NAME:Guest} ${OTHER:none}", (key) =>
+      key === "NAME" ? "Ada" : undefined,
+    );
+    expect(result).toBe("Ada none");
+  });
+
+  it("resolves from the first source that defines a key", () => {
+    const result = interpolate("${HOST}:${PORT} ${DEBUG:false}", [
+      { PORT: "8081" },
+      new Map([
+        ["PORT", "3000"],
+        ["HOST", "localhost"],
+      ]),
+      { HOST: "example.com", DEBUG: "true" },
+    ]);
+    expect(result).toBe("localhost:8081 true");
+  });
+
+  it("skips sources where the key is undefined", () => {
+    const result = interpolate("${NAME}", [
+      { NAME: undefined },
+      () => undefined,
+      { NAME: "" },
+      { NAME: "later" },
+    ]);
+    expect(result).toBe("");
+  });
+
+  it("falls back to defaults when no source defines a key", () => {
+    expect(interpolate("${PORT:3000}", [{}, new Map()])).toBe("3000");
+  });
+
+  it("reports which layer supplied a value", () => {
+    const resolver = createResolver([
+      ["cli", { PORT: "8081" }],
+      [".env", new Map([["HOST", "localhost"]])],
+      { USER: "ada" },
+    ]);
+
+    expect(resolver.layers).toEqual(["cli", ".env", "layer #2"]);
+    expect(resolver.explain("PORT")).toEqual({
+      key: "PORT",
+      value: "8081",
+      layer: 0,
+      name: "cli",
+    });
+    expect(resolver.explain("USER")).toMatchObject({
+      layer: 2,
+      name: "layer #2",
+    });
+    expect(resolver.explain("MISSING")).toBeUndefined();
+    expect(resolver("HOST")).toBe("localhost");
+  });
+
+  it("can be used directly as the variables argument", () => {
+    const resolver = createResolver([["cli", { PORT: "8081" }], { PORT: "1" }]);
+    expect(interpolate({ port: "${PORT}" }, resolver)).toEqual({
+      port: "8081",
+    });
+  });
+
+  it("supports named layers in the variables list", () => {
+    const result = interpolate("${A}${B}", [
+      ["overrides", { A: "1" }],
+      ["base", { A: "x", B: "2" }],
+    ]);
+    expect(result).toBe("12");
+  });
+});
+
+describe("POSIX parameter expansion", () => {
+  const posix = { posix: true };
+
+  it("${VAR:-word} uses the word when unset or empty", () => {
+    expect(interpolate("${VAR:-word}", {}, posix)).toBe("word");
+    expect(interpolate("${VAR:-word}", { VAR: "" }, posix)).toBe("word");
+    expect(interpolate("${VAR:-word}", { VAR: "set" }, posix)).toBe("set");
+  });
+
+  it("${VAR-word} uses the word only when unset", () => {
+    expect(interpolate("${VAR-word}", {}, posix)).toBe("word");
+    expect(interpolate("${VAR-word}", { VAR: "" }, posix)).toBe("");
+    expect(interpolate("${VAR-word}", { VAR: "set" }, posix)).toBe("set");
+  });
+
+  it("${VAR:+word} uses the word when set and non-empty", () => {
+    expect(interpolate("${VAR:+alt}", {}, posix)).toBe("");
+    expect(interpolate("${VAR:+alt}", { VAR: "" }, posix)).toBe("");
+    expect(interpolate("${VAR:+alt}", { VAR: "set" }, posix)).toBe("alt");
+  });
+
+  it("${VAR+word} uses the word when set", () => {
+    expect(interpolate("${VAR+alt}", {}, posix)).toBe("");
+    expect(interpolate("${VAR+alt}", { VAR: "" }, posix)).toBe("alt");
+    expect(interpolate("${VAR+alt}", { VAR: "set" }, posix)).toBe("alt");
+  });
+
+  it("${VAR:?message} requires a non-empty value", () => {
+    expect(interpolate("${VAR:?missing}", { VAR: "set" }, posix)).toBe("set");
+    expect(() => interpolate("${VAR:?missing}", { VAR: "" }, posix)).toThrow(
+      RequiredVariableError,
+    );
+    expect(() => interpolate("${VAR:?is required}", {}, posix)).toThrow(
+      "VAR: is required",
+    );
+    expect(() => interpolate("${VAR:?}", {}, posix)).toThrow(
+      "VAR: parameter null or not set",
+    );
+  });
+
+  it("${VAR?message} requires the variable to be set", () => {
+    expect(interpolate("${VAR?missing}", { VAR: "" }, posix)).toBe("");
+    expect(() => interpolate("${VAR?}", {}, posix)).toThrow(
+      "VAR: parameter not set",
+    );
+  });
+
+  it("reports the path and expands the message of failed requirements", () => {
+    try {
+      interpolate(
+        { db: [{ host: "${DB_HOST:?set DB_HOST for ${ENV}}" }] },
+        { ENV: "staging" },
+        posix,
+      );
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(RequiredVariableError);
+      expect(error).toMatchObject({
+        key: "DB_HOST",
+        reason: "set DB_HOST for staging",
+        path: "db[0].host",
+        message: "DB_HOST: set DB_HOST for staging (at db[0].host)",
+      });
+    }
+  });
+
+  it("keeps plain placeholders and the empty word semantics", () => {
+    expect(interpolate("${VAR}", { VAR: "x" }, posix)).toBe("x");
+    expect(interpolate("${VAR}", {}, posix)).toBe("${VAR}");
+    expect(interpolate("[${VAR:-}]", {}, posix)).toBe("[]");
+  });
+
+  it("resolves nested words and strips quotes", () => {
+    expect(interpolate("${A:-${B:-fallback}}", { B: "" }, posix)).toBe(
+      "fallback",
+    );
+    expect(interpolate('${A:-"a:-b"}', {}, posix)).toBe("a:-b");
+    expect(interpolate("${A-x-y}", {}, posix)).toBe("x-y");
+  });
+
+  it("leaves unsupported forms unchanged", () => {
+    expect(interpolate("${VAR:default}", {}, posix)).toBe("${VAR:default}");
+    expect(interpolate("${VAR:=word}", {}, posix)).toBe("${VAR:=word}");
+  });
+
+  it("does not change the default syntax when disabled", () => {
+    expect(interpolate("${VAR:-word}", {})).toBe("-word");
+    expect(interpolate("${VAR-word}", {})).toBe("${VAR-word}");
+  });
+
+  it("only reports plain unset placeholders in strict mode", () => {
+    expect(() =>
+      interpolate(
+        "${A:-x} ${B-y} ${C:+z} ${D}",
+        {},
+        {
+          posix: true,
+          strict: true,
+        },
+      ),
+    ).toThrow(/D at <root> \(offset 5\)/);
+  });
+
+  it("resolves required variables from async providers", async () => {
+    const result = await interpolateAsync(
+      "${DB_HOST:?required}",
+      memoryProvider({ DB_HOST: "db" }),
+      posix,
+    );
+    expect(result).toBe("db");
+    await expect(
+      interpolateAsync("${DB_HOST:?required}", memoryProvider({}), posix),
+    ).rejects.toThrow(RequiredVariableError);
+  });
+});
+
+describe("type coercion", () => {
+  const coerce = { coerce: true };
+
+  it("replaces a lone hinted placeholder with a typed value", () => {
+    const result = interpolate(
+      {
+        port: "${PORT|number:3000}",
+        debug: "${DEBUG|bool:false}",
+        features: "${FEATURES|json:[]}",
+        name: "${NAME|string:app}",
+      },
+      { DEBUG: "yes", FEATURES: '["a","b"]' },
+      coerce,
+    );
+    expect(result).toEqual({
+      port: 3000,
+      debug: true,
+      features: ["a", "b"],
+      name: "app",
+    });
+  });
+
+  it("accepts the documented boolean spellings", () => {
+    const values = ["true", "1", "YES", "on", "false", "0", "No", "OFF"];
+    const result = interpolate(
+      values.map((_, i) => `\${B${i}|boolean}`),
+      Object.fromEntries(values.map((value, i) => [`B${i}`, value])),
+      coerce,
+    );
+    expect(result).toEqual([
+      true,
+      true,
+      true,
+      true,
+      false,
+      false,
+      false,
+      false,
+    ]);
+  });
+
+  it("coerces values resolved through nested defaults", () => {
+    const result = interpolate(
+      "${PORT|number:${DEFAULT_PORT:8080}}",
+      { DEFAULT_PORT: "9090" },
+      coerce,
+    );
+    expect(result).toBe(9090);
+  });
+
+  it("validates hinted placeholders inside larger strings", () => {
+    expect(
+      interpolate(
+        "port=${PORT|number} flags=${F|json}",
+        {
+          PORT: " 42 ",
+          F: '{ "a": 1 }',
+        },
+        coerce,
+      ),
+    ).toBe('port=42 flags={"a":1}');
+    expect(() =>
+      interpolate("port=${PORT|number}", { PORT: "abc" }, coerce),
+    ).toThrow(CoercionError);
+  });
+
+  it("supports hints in POSIX mode", () => {
+    expect(
+      interpolate(
+        "${PORT|number:-3000}",
+        { PORT: "" },
+        {
+          coerce: true,
+          posix: true,
+        },
+      ),
+    ).toBe(3000);
+  });
+
+  it("names the variable, type and path when coercion fails", () => {
+    try {
+      interpolate(
+        { server: { port: "${PORT|number}" } },
+        { PORT: "http" },
+        coerce,
+      );
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(CoercionError);
+      expect(error).toMatchObject({
+        key: "PORT",
+        type: "number",
+        value: "http",
+        path: "server.port",
+        message: 'Cannot coerce PORT to number: "http" (at server.port)',
+      });
+    }
+  });
+
+  it("rejects invalid booleans, JSON and unknown hints", () => {
+    expect(() => interpolate("${B|bool}", { B: "maybe" }, coerce)).toThrow(
+      'Cannot coerce B to bool: "maybe"',
+    );
+    expect(() => interpolate("${J|json}", { J: "{oops" }, coerce)).toThrow(
+      CoercionError,
+    );
+    expect(() => interpolate("${N|numbr}", { N: "1" }, coerce)).toThrow(
+      'Unknown type "numbr" for N',
+    );
+    expect(() => interpolate("${N|number}", { N: "" }, coerce)).toThrow(
+      CoercionError,
+    );
+  });
+
+  it("leaves unresolved hinted placeholders as strings", () => {
+    expect(interpolate("${PORT|number}", {}, coerce)).toBe("${PORT|number}");
+    expect(() =>
+      interpolate("${PORT|number}", {}, { coerce: true, strict: true }),
+    ).toThrow(UnresolvedPlaceholderError);
+  });
+
+  it("ignores hints when coercion is disabled", () => {
+    expect(interpolate("${PORT|number:3000}", {})).toBe("${PORT|number:3000}");
+  });
+
+  it("coerces values fetched by async providers", async () => {
+    const result = await interpolateAsync(
+      { port: "${PORT|number}" },
+      memoryProvider({ PORT: "5432" }),
+      coerce,
+    );
+    expect(result).toEqual({ port: 5432 });
+  });
+});
+
+describe("cycle detection", () => {
+  it("reports mutually recursive variables with the cycle chain", () => {
+    const variables = { A: "${B}", B: "${A}" };
+    expect(() => interpolate("${A}", variables)).toThrow(
+      "Circular variable reference: A -> B -> A",
+    );
+
+    try {
+      interpolate({ db: { url: "x${A}" } }, variables);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(CycleError);
+      expect(error).toBeInstanceOf(InterpolationError);
+      expect((error as CycleError).chain).toEqual(["A", "B", "A"]);
+      expect((error as CycleError).key).toBe("A");
+      expect((error as CycleError).path).toBe("db.url");
+    }
+  });
+
+  it("reports only the variables forming the cycle", () => {
+    const variables = { ENTRY: "${A}", A: "${B:x}", B: "${C}", C: "${A}" };
+    expect(() => interpolate("${ENTRY}", variables)).toThrow(
+      "Circular variable reference: A -> B -> C -> A",
+    );
+  });
+
+  it("detects self-references, including through defaults", () => {
+    expect(() => interpolate("${A}", { A: "<${A}>" })).toThrow(CycleError);
+    expect(() => interpolate("${A}", { A: "${MISSING:${A}}" })).toThrow(
+      "Circular variable reference: A -> A",
+    );
+  });
+
+  it("does not treat repeated use of a variable as a cycle", () => {
+    const variables = {
+      HOST: "localhost",
+      URL: "${HOST}:${HOST}",
+      A: "${URL}",
+    };
+    expect(interpolate("${A} ${URL} ${HOST}", variables)).toBe(
+      "localhost:localhost localhost:localhost localhost",
+    );
+    // A missing variable used as its own default's fallback is not a cycle
+    expect(interpolate("${A:${A:x}}", {})).toBe("x");
+  });
+
+  it("resolves long chains without tuning maxPasses", () => {
+    const variables: Record<string, string> = { V100: "end" };
+    for (let i = 0; i < 100; i++) variables[`V${i}`] = `\${V${i + 1}}`;
+    expect(interpolate("${V0}", variables)).toBe("end");
+  });
+
+  it("never expands escaped placeholders coming from values", () => {
+    const variables = { A: "\\${B}", B: "b", C: "c" };
+    expect(interpolate("${A} ${C}", variables)).toBe("${B} c");
+    expect(interpolate("\\${B} ${C}", variables)).toBe("${B} c");
+  });
+
+  it("reports unresolved placeholders of nested values at their final offset", () => {
+    expect(() =>
+      interpolate("ab${A}", { A: "-${MISSING}" }, { strict: true }),
+    ).toThrow("MISSING at <root> (offset 3)");
+  });
+});
+
+describe("intra-document references", () => {
+  const options = { references: true };
+
+  it("resolves references to other values of the input", () => {
+    const config = {
+      db: { host: "${DB_HOST:localhost}", port: "5432" },
+      url: "postgres://${@db.host}:${@db.port}/app",
+    };
+    expect(interpolate(config, { DB_HOST: "db" }, options)).toEqual({
+      db: { host: "db", port: "5432" },
+      url: "postgres://db:5432/app",
+    });
+  });
+
+  it("is disabled by default", () => {
+    expect(interpolate({ a: "x", b: "${@a}" }, {})).toEqual({
+      a: "x",
+      b: "${@a}",
+    });
+  });
+
+  it("resolves chained references regardless of declaration order", () => {
+    const config = {
+      a: "${@b}-a",
+      b: "${@c.d}-b",
+      c: { d: "${NAME}" },
+    };
+    expect(interpolate(config, { NAME: "n" }, options)).toEqual({
+      a: "n-b-a",
+      b: "n-b",
+      c: { d: "n" },
+    });
+  });
+
+  it("supports array indexes and bracketed keys", () => {
+    const config = {
+      servers: [{ port: "80" }, { port: "8080" }],
+      headers: { "x-api-key": "secret" },
+      out: '${@servers[1].port} ${@headers["x-api-key"]}',
+    };
+    expect(interpolate(config, {}, options).out).toBe("8080 secret");
+  });
+
+  it("replaces lone references with the referenced value", () => {
+    const config = {
+      defaults: { retries: 3, hosts: ["${HOST}"] },
+      service: "${@defaults}",
+      retries: "${@defaults.retries}",
+      flag: "${@enabled}",
+      enabled: "${ENABLED|bool}",
+    };
+    const result = interpolate(
+      config,
+      { HOST: "h", ENABLED: "yes" },
+      { ...options, coerce: true },
+    );
+    expect(result.service).toEqual({ retries: 3, hosts: ["h"] });
+    // The interpolated object is shared, like a YAML anchor
+    expect(result.service).toBe(result.defaults);
+    expect(result.retries).toBe(3);
+    expect(result.flag).toBe(true);
+  });
+
+  it("inserts non-string values in their text form", () => {
+    const config = { port: 8080, list: [1, 2], text: "${@port} ${@list}" };
+    expect(interpolate(config, {}, options).text).toBe("8080 [1,2]");
+  });
+
+  it("uses defaults for missing references and reports them in strict mode", () => {
+    expect(interpolate({ a: "${@missing:fallback}" }, {}, options)).toEqual({
+      a: "fallback",
+    });
+    expect(() =>
+      interpolate({ a: "${@missing}" }, {}, { ...options, strict: true }),
+    ).toThrow("@missing at a (offset 0)");
+  });
+
+  it("reports unresolved placeholders once, at the referenced value", () => {
+    try {
+      interpolate(
+        { a: "${MISSING}", b: "${@a}" },
+        {},
+        { ...options, strict: true },
+      );
+      expect.unreachable();
+    } catch (error) {
+      expect((error as UnresolvedPlaceholderError).unresolved).toEqual([
+        { key: "MISSING", placeholder: "${MISSING}", path: "a", offset: 0 },
+      ]);
+    }
+  });
+
+  it("leaves invalid reference paths unchanged", () => {
+    expect(interpolate({ a: "${@} ${@a..b} ${@[x]}" }, {}, options)).toEqual({
+      a: "${@} ${@a..b} ${@[x]}",
+    });
+  });
+
+  it("detects circular references", () => {
+    try {
+      interpolate({ a: "${@b}", b: "x${@a}" }, {}, options);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(CycleError);
+      expect((error as CycleError).chain).toEqual(["@a", "@b", "@a"]);
+      expect((error as CycleError).message).toContain(
+        "Circular variable reference: @a -> @b -> @a",
+      );
+    }
+    expect(() => interpolate({ a: "${@a}" }, {}, options)).toThrow(CycleError);
+  });
+
+  it("keeps references out of provider requests", async () => {
+    const calls: string[][] = [];
+    const result = await interpolateAsync(
+      { host: "${HOST}", url: "http://${@host}" },
+      memoryProvider({ HOST: "example.com" }, calls),
+      options,
+    );
+    expect(result).toEqual({ host: "example.com", url: "http://example.com" });
+    expect(calls).toEqual([["HOST"]]);
+  });
+});
+
+describe("placeholder syntax", () => {
+  it("supports the mustache dialect", () => {
+    const options = { syntax: "mustache" } as const;
+    expect(
+      interpolate("{{GREETING:Hello {{USER:Guest}}}}, ${USER}", {}, options),
+    ).toBe("Hello Guest, ${USER}");
+    expect(interpolate("{{USER}}", { USER: "Ann" }, options)).toBe("Ann");
+    expect(interpolate("\\{{USER}} {{user-name}}", {}, options)).toBe(
+      "{{USER}} {{user-name}}",
+    );
+  });
+
+  it("supports bare $VAR placeholders", () => {
+    const options = { syntax: "bare" } as const;
+    const variables = { HOME: "/home/ann", USER: "ann" };
+    expect(interpolate("$HOME/$USER.txt", variables, options)).toBe(
+      "/home/ann/ann.txt",
+    );
+    expect(interpolate("\\$HOME costs $5 ${USER} $", variables, options)).toBe(
+      "$HOME costs $5 ${USER} $",
+    );
+    expect(() =>
+      interpolate("$MISSING", {}, { ...options, strict: true }),
+    ).toThrow("MISSING at <root> (offset 0)");
+  });
+
+  it("supports the windows dialect", () => {
+    const options = { syntax: "windows" } as const;
+    expect(
+      interpolate(
+        "100% of %USERNAME% in %DIR:C:\\tmp%",
+        { USERNAME: "ann" },
+        options,
+      ),
+    ).toBe("100% of ann in C:\\tmp");
+  });
+
+  it("accepts custom delimiters and separators", () => {
+    const syntax = { open: "<%=", close: "%>", separator: "|" };
+    expect(
+      interpolate(
+        "<%=HOST|localhost%>:<%=PORT|<%=DEFAULT_PORT|80%>%>",
+        {},
+        {
+          syntax,
+        },
+      ),
+    ).toBe("localhost:80");
+    expect(interpolate("<%=VAR|default%>", {}, { syntax })).toBe("default");
+    expect(interpolate("<%=VAR|default%>", { VAR: "v" }, { syntax })).toBe("v");
+    // Bare braces are balanced when the closing token is a single bracket
+    expect(
+      interpolate(
+        '#[CONFIG:{"a":1}]',
+        {},
+        { syntax: { open: "#[", close: "]" } },
+      ),
+    ).toBe('{"a":1}');
+  });
+
+  it("applies POSIX operators and type hints within the delimiters", () => {
+    expect(
+      interpolate(
+        { port: "{{PORT|number:-3000}}" },
+        {},
+        { syntax: "mustache", posix: true, coerce: true },
+      ),
+    ).toEqual({ port: 3000 });
+  });
+
+  it("leaves literal ${...} untouched with other dialects", () => {
+    expect(
+      interpolate("{{A}} ${A} \\${A}", { A: "x" }, { syntax: "mustache" }),
+    ).toBe("x ${A} \\${A}");
+  });
+
+  it("rejects unknown dialects and empty opening tokens", () => {
+    expect(() =>
+      interpolate("", {}, { syntax: "jinja" as SyntaxDialect }),
+    ).toThrow('Unknown syntax dialect "jinja"');
+    expect(() =>
+      interpolate("x", {}, { syntax: { open: "", close: "}" } }),
+    ).toThrow(TypeError);
+  });
+});
+
+describe("variable-name grammars", () => {
+  it("leaves dotted, dashed and non-ASCII names untouched by default", () => {
+    const input = "${service.port} ${feature-flag} ${größe}";
+    expect(interpolate(input, { "service.port": "80" })).toBe(input);
+  });
+
+  it("supports dotted names", () => {
+    const variables = { "spring.datasource.url": "jdbc:x", "max-pool": "5" };
+    expect(
+      interpolate(
+        "${spring.datasource.url} ${spring.datasource.user:sa}",
+        variables,
+        { names: "dotted" },
+      ),
+    ).toBe("jdbc:x sa");
+    expect(
+      interpolate(
+        "${svc.max-pool:10}",
+        { "svc.max-pool": "5" },
+        {
+          names: "dotted",
+        },
+      ),
+    ).toBe("5");
+  });
+
+  it("supports kebab names, including with POSIX operators", () => {
+    const options = { names: "kebab" } as const;
+    expect(interpolate("${feature-flag:off}", {}, options)).toBe("off");
+    expect(
+      interpolate("${feature-flag:-off}", {}, { ...options, posix: true }),
+    ).toBe("off");
+    expect(
+      interpolate(
+        "${feature-flag:+on}",
+        { "feature-flag": "1" },
+        {
+          ...options,
+          posix: true,
+        },
+      ),
+    ).toBe("on");
+  });
+
+  it("supports POSIX environment names", () => {
+    expect(
+      interpolate(
+        "${_A1} ${1A}",
+        { _A1: "x", "1A": "y" },
+        {
+          names: "posix",
+        },
+      ),
+    ).toBe("x ${1A}");
+  });
+
+  it("supports Unicode identifiers", () => {
+    expect(
+      interpolate(
+        "${größe} ${名前:匿名}",
+        { größe: "42" },
+        { names: "unicode" },
+      ),
+    ).toBe("42 匿名");
+  });
+
+  it("accepts a custom validator", () => {
+    const names = (name: string) => /^[a-z]+(?::[a-z]+)+$/.test(name);
+    expect(
+      interpolate("${db:host} ${db:port:5432}", { "db:host": "pg" }, { names }),
+    ).toBe("pg 5432");
+    // Undefined names fall back to the longest key with a default
+    const colons = (name: string) => /^[a-z:]+$/.test(name);
+    expect(
+      interpolate(
+        "${db:host:localhost} ${db:name:app} ${db:port}",
+        { "db:host": "h", db: "x" },
+        { names: colons },
+      ),
+    ).toBe("h app x");
+    expect(interpolate("${db:host}", { db: "x" }, { names: colons })).toBe("x");
+    expect(interpolate("${db:host:localhost}", {}, { names: colons })).toBe(
+      "localhost",
+    );
+    // Quote defaults containing the separator when names can contain it
+    expect(interpolate("${app:url:'http://localhost'}", {}, { names })).toBe(
+      "http://localhost",
+    );
+  });
+
+  it("applies the grammar to bare placeholders", () => {
+    expect(
+      interpolate(
+        "$svc.host:$svc.port.",
+        { "svc.host": "h", "svc.port": "1" },
+        {
+          syntax: "bare",
+          names: "dotted",
+        },
+      ),
+    ).toBe("h:1.");
+  });
+
+  it("rejects unknown grammars", () => {
+    expect(() =>
+      interpolate("${A}", {}, { names: "camel" as NameGrammar }),
+    ).toThrow('Unknown name grammar "camel"');
+  });
+});
+
+describe("object keys", () => {
+  it("leaves keys untouched by default", () => {
+    expect(interpolate({ "${A}": "${A}" }, { A: "a" })).toEqual({
+      "${A}": "a",
+    });
+  });
+
+  it("interpolates keys when enabled", () => {
+    const config = {
+      regions: { "${REGION}": { url: "https://${REGION}.example.com" } },
+      headers: { "${AUTH_HEADER:Authorization}": "Bearer ${TOKEN}" },
+    };
+    expect(
+      interpolate(config, { REGION: "eu", TOKEN: "t" }, { keys: true }),
+    ).toEqual({
+      regions: { eu: { url: "https://eu.example.com" } },
+      headers: { Authorization: "Bearer t" },
+    });
+  });
+
+  it("keeps the order of properties", () => {
+    const result = interpolate(
+      { a: 1, "${B}": 2, c: 3 },
+      { B: "b" },
+      { keys: true },
+    );
+    expect(Object.keys(result)).toEqual(["a", "b", "c"]);
+  });
+
+  it("throws on collisions by default", () => {
+    const input = { db: { "${A}": 1, "${B}": 2 } };
+    const variables = { A: "x", B: "x" };
+    expect(() => interpolate(input, variables, { keys: true })).toThrow(
+      new KeyCollisionError("x", ["${A}", "${B}"], "db"),
+    );
+    expect(() => interpolate(input, variables, { keys: "error" })).toThrow(
+      'Keys "${A}" and "${B}" both resolve to "x" (at db)',
+    );
+  });
+
+  it("keeps the first property with the first policy", () => {
+    expect(
+      interpolate({ x: 1, "${A}": 2 }, { A: "x" }, { keys: "first" }),
+    ).toEqual({ x: 1 });
+  });
+
+  it("deep merges values with the merge policy", () => {
+    const input = {
+      "${ENV}": { db: { host: "a", port: 1 }, tags: ["a"] },
+      prod: { db: { host: "b" }, tags: ["b"], debug: false },
+    };
+    expect(interpolate(input, { ENV: "prod" }, { keys: "merge" })).toEqual({
+      prod: { db: { host: "b", port: 1 }, tags: ["b"], debug: false },
+    });
+  });
+
+  it("does not change prototypes", () => {
+    const result = interpolate(
+      { "${KEY}": { polluted: true } },
+      { KEY: "__proto__" },
+      { keys: true },
+    ) as Record<string, unknown>;
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(Object.hasOwn(result, "__proto__")).toBe(true);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it("preserves shared and cyclic references", () => {
+    const shared = { "${A}": "${A}" };
+    const input: Record<string, unknown> = { one: shared, two: shared };
+    input.self = input;
+    const result = interpolate(input, { A: "a" }, { keys: true });
+    expect(result.one).toEqual({ a: "a" });
+    expect(result.two).toBe(result.one);
+    expect(result.self).toBe(result);
+  });
+
+  it("reports placeholder errors at the path of the key", () => {
+    expect(() =>
+      interpolate({ db: { "${A}": 1 } }, {}, { keys: true, strict: true }),
+    ).toThrow('A at db["${A}"]');
+  });
+
+  it("fetches variables used in keys from providers", async () => {
+    const calls: string[][] = [];
+    const provider = memoryProvider({ REGION: "eu", URL: "u" }, calls);
+    expect(
+      await interpolateAsync({ "${REGION}": "${URL}" }, provider, {
+        keys: true,
+      }),
+    ).toEqual({ eu: "u" });
+    expect(calls).toEqual([["REGION", "URL"]]);
+  });
+
+  it("renames keys of referenced objects", () => {
+    expect(
+      interpolate(
+        { copy: "${@db}", db: { "${A}": 1 } },
+        { A: "a" },
+        { keys: true, references: true },
+      ),
+    ).toEqual({ copy: { a: 1 }, db: { a: 1 } });
+  });
+});
+
+describe("non-plain objects", () => {
+  const variables = { A: "a", B: "b" };
+
+  it("interpolates Map values and Set entries", () => {
+    const key = { id: 1 };
+    const result = interpolate(
+      {
+        map: new Map<unknown, unknown>([
+          ["x", "${A}"],
+          [key, ["${B}"]],
+        ]),
+        set: new Set(["${A}", "${B}", "literal"]),
+      },
+      variables,
+    );
+    expect(result.map).toBeInstanceOf(Map);
+    expect([...result.map]).toEqual([
+      ["x", "a"],
+      [key, ["b"]],
+    ]);
+    expect([...result.set]).toEqual(["a", "b", "literal"]);
+  });
+
+  it("reports paths inside Maps and Sets", () => {
+    expect(() =>
+      interpolate(
+        { map: new Map([["x", "${MISSING}"]]), set: new Set(["${MISSING}"]) },
+        {},
+        { strict: true },
+      ),
+    ).toThrow(/MISSING at map\.x[\s\S]*MISSING at set\[0\]/);
+  });
+
+  it("keeps built-in objects as they are", () => {
+    const input = {
+      date: new Date(0),
+      regexp: /\${A}/g,
+      bytes: new Uint8Array([1, 2]),
+      buffer: Buffer.from("${A}"),
+      url: new URL("https://example.com/${A}"),
+      error: new Error("${A}"),
+    };
+    const result = interpolate(input, variables);
+    for (const key of Object.keys(input) as Array<keyof typeof input>) {
+      expect(result[key]).toBe(input[key]);
+    }
+  });
+
+  it("keeps the prototype of class instances", () => {
+    class Endpoint {
+      constructor(public url: string) {}
+      describe() {
+        return `endpoint ${this.url}`;
+      }
+    }
+    const result = interpolate({ api: new Endpoint("${A}") }, variables);
+    expect(result.api).toBeInstanceOf(Endpoint);
+    expect(result.api.describe()).toBe("endpoint a");
+  });
+
+  it("keeps class instances with private state when nothing changes", () => {
+    class Client {
+      #token: string;
+      timeout = 30;
+      constructor(token: string) {
+        this.#token = token;
+      }
+      get token() {
+        return this.#token;
+      }
+    }
+    const client = new Client("${A}");
+    const result = interpolate({ client, url: "${B}" }, variables);
+    expect(result.client).toBe(client);
+    expect(result.client.token).toBe("${A}");
+    expect(result.url).toBe("b");
+  });
+
+  it("keeps subclasses of Map and Set", () => {
+    class Registry extends Map<string, string> {
+      names() {
+        return [...this.keys()].join(",");
+      }
+    }
+    class Tags extends Set<string> {
+      list() {
+        return [...this].join(",");
+      }
+    }
+    const registry = new Registry([["x", "${A}"]]);
+    const tags = new Tags(["${B}", "c"]);
+    const fixed = new Registry([["y", "z"]]);
+    const result = interpolate({ registry, tags, fixed }, variables);
+    expect(result.registry).toBeInstanceOf(Registry);
+    expect(result.registry).not.toBe(registry);
+    expect(result.registry.get("x")).toBe("a");
+    expect(result.registry.names()).toBe("x");
+    expect(result.tags).toBeInstanceOf(Tags);
+    expect(result.tags.list()).toBe("b,c");
+    expect(result.fixed).toBe(fixed);
+  });
+
+  it("keeps symbol keys, non-enumerable properties and null prototypes", () => {
+    const tag = Symbol("tag");
+    const input = Object.create(null) as Record<PropertyKey, unknown>;
+    input.visible = "${A}";
+    input[tag] = "${B}";
+    Object.defineProperty(input, "hidden", {
+      value: "${A}",
+      enumerable: false,
+    });
+    Object.defineProperty(input, "computed", {
+      get: () => "getter",
+      enumerable: false,
+    });
+
+    const result = interpolate(input, variables);
+    expect(Object.getPrototypeOf(result)).toBeNull();
+    expect(result.visible).toBe("a");
+    expect(result[tag]).toBe("b");
+    expect(result.hidden).toBe("a");
+    expect(Object.keys(result)).toEqual(["visible"]);
+    expect(Object.getOwnPropertyDescriptor(result, "computed")?.get).toBeTypeOf(
+      "function",
+    );
+  });
+
+  it("lets a visitor handle custom classes", () => {
+    class Secret {
+      #value: string;
+      constructor(value: string) {
+        this.#value = value;
+      }
+      reveal() {
+        return this.#value;
+      }
+    }
+    const visit: ObjectVisitor = (value, interpolate, path) => {
+      if (value instanceof Secret) {
+        return new Secret(`${interpolate(value.reveal()) as string}@${path}`);
+      }
+      return undefined;
+    };
+    const result = interpolate(
+      { secret: new Secret("${A}"), date: new Date(0) },
+      variables,
+      { visit },
+    );
+    expect(result.secret).toBeInstanceOf(Secret);
+    expect(result.secret.reveal()).toBe("a@secret");
+    expect(result.date).toEqual(new Date(0));
+  });
+
+  it("passes cycles through the visitor safely", () => {
+    class Node {
+      next?: Node;
+      label = "${A}";
+    }
+    const node = new Node();
+    node.next = node;
+    const result = interpolate({ node }, variables, {
+      visit: (value, interpolate) => {
+        if (!(value instanceof Node)) return undefined;
+        const copy = new Node();
+        copy.label = interpolate(value.label, "label") as string;
+        copy.next = interpolate(value.next, "next") as Node;
+        return copy;
+      },
+    });
+    expect(result.node.label).toBe("a");
+    // The object being visited is reached again and kept
+    expect(result.node.next).toBe(node);
+  });
+
+  it("fetches variables used in visited objects from providers", async () => {
+    class Secret {
+      constructor(readonly value: string) {}
+    }
+    const calls: string[][] = [];
+    const visit: ObjectVisitor = (value, interpolate) =>
+      value instanceof Secret
+        ? new Secret(
+            `${interpolate(value.value) as string}/${interpolate("${SUFFIX}") as string}`,
+          )
+        : undefined;
+    const result = await interpolateAsync(
+      { secret: new Secret("${KEY}") },
+      memoryProvider({ KEY: "k", SUFFIX: "s" }, calls),
+      { visit },
+    );
+    expect(result.secret).toBeInstanceOf(Secret);
+    expect(result.secret.value).toBe("k/s");
+    expect(calls).toEqual([["KEY", "SUFFIX"]]);
+  });
+});
@@ -0,0 +1,2413 @@
+import {
+  CoercionError,
+  CycleError,
+  FilterError,
+  KeyCollisionError,
+  PlaceholderError,
+  ProviderTimeoutError,
+  RequiredVariableError,
+  UnresolvedPlaceholderError,
+} from "./errors.js";
+import type { UnresolvedPlaceholder } from "./errors.js";
+import { getEncoder, type EncoderFunction } from "./encoders.js";
+import {
+  applyFilters,
+  stringifyValue,
+  type FilterCall,
+  type FilterFunction,
+} from "./filters.js";
+import type {
+  InterpolationReport,
+  PathReport,
+  PlaceholderResolution,
+  ResolutionSource,
+} from "./report.js";
+
+// Default variables source (process.env in Node environments)
+const defaults: Record<string, string | undefined> =
+  typeof process !== "undefined" ? process.env : {};
+
+/**
+ * Plain object type representing a record with string keys and unknown values.
+ * Used internally for type-safe object traversal during interpolation.
+ */
+type PlainObject = Record<string, unknown>;
+
+/**
+ * Union type representing all valid input types that can be processed by the interpolate function.
+ * Supports strings, plain objects, and arrays for recursive interpolation.
+ *
+ * @example
+ * // String input
+ * const stringInput: Input = 'Hello ${NAME:Guest}!';
+ *
+ * @example
+ * // Object input
+ * const objectInput: Input = { greeting: 'Hello ${NAME:Guest}!' };
+ *
+ * @example
+ * // Array input
+ * const arrayInput: Input = ['${GREETING:Hello}', '${NAME:World}'];
+ */
+export type Input = string | PlainObject | Array<unknown>;
+
+/**
+ * Configuration options for controlling interpolation behavior.
+ *
+ * @example
+ * // Enable escape processing (default)
+ * const options: InterpolateOptions = { escape: true };
+ * interpolate('Use \\${LITERAL} text', {}, options);
+ * // Returns: 'Use ${LITERAL} text'
+ *
+ * @example
+ * // Disable escape processing
+ * const options: InterpolateOptions = { escape: false };
+ * interpolate('Keep \\${LITERAL} unchanged', {}, options);
+ * // Returns: 'Keep \\${LITERAL} unchanged'
+ *
+ * @example
+ * // Limit the nesting depth
+ * const options: InterpolateOptions = { maxPasses: 1 };
+ * interpolate('${A:${B:${C:default}}}', {}, options);
+ * // Returns: '${B:${C:default}}'
+ */
+export interface InterpolateOptions {
+  /**
+   * Enable escape processing for placeholders. When true, backslashes can be used
+   * to escape placeholders: `\\${VAR}` becomes literal `${VAR}` (single escaping).
+   * Pairs of backslashes are reduced to single backslashes. Defaults to true.
+   */
+  escape?: boolean;
+  /**
+   * Maximum nesting depth to expand. Each level expands the placeholders found
+   * in the values and defaults substituted by the previous one; placeholders
+   * beyond the limit are left as they are. Defaults to no limit, though
+   * nesting deeper than 1000 levels is never expanded so that resolution stays
+   * within the call stack.
+   *
+   * Cycles between variables are always reported as a {@link CycleError}, so
+   * a limit is only needed to cap the work done on untrusted input.
+   */
+  maxPasses?: number;
+  /**
+   * Fail loudly on missing configuration. When true, every placeholder whose
+   * variable is missing and has no usable default (including empty defaults
+   * such as `${VAR:}`) is collected across the whole input, and a single
+   * {@link UnresolvedPlaceholderError} listing all of them is thrown once the
+   * traversal completes. Defaults to false.
+   */
+  strict?: boolean;
+  /**
+   * Understand POSIX/bash parameter-expansion operators instead of the default
+   * `${VAR:default}` syntax, with the exact shell semantics:
+   *
+   * - `${VAR:-word}` uses `word` when `VAR` is unset or empty.
+   * - `${VAR-word}` uses `word` when `VAR` is unset.
+   * - `${VAR:?message}` requires `VAR` to be set and non-empty.
+   * - `${VAR?message}` requires `VAR` to be set.
+   * - `${VAR:+word}` uses `word` when `VAR` is set and non-empty, else nothing.
+   * - `${VAR+word}` uses `word` when `VAR` is set, else nothing.
+   *
+   * Failed requirements throw a {@link RequiredVariableError}. Other forms such
+   * as `${VAR:word}` are left unchanged. Defaults to false.
+   */
+  posix?: boolean;
+  /**
+   * Enable type hints in placeholders: `${PORT|number:3000}`,
+   * `${DEBUG|bool:false}` or `${FEATURES|json:[]}`. When a string consists of
+   * exactly one hinted placeholder it is replaced by the typed value; inside
+   * larger strings the value is validated and inserted in its canonical text
+   * form. Supported hints are `string`, `number`, `bool` (or `boolean`) and
+   * `json`. Failures throw a {@link CoercionError}. Defaults to false.
+   *
+   * Type hints are filters (see `filters`), so they can end a pipeline such as
+   * `${PORT|trim|number}` when filters are enabled.
+   */
+  coerce?: boolean;
+  /**
+   * Enable filter pipelines in placeholders: `${NAME|trim|upper}` or
+   * `${DIR|join(logs, ${APP:app}):/var}`. Filters run in order on the resolved
+   * value, whether it comes from the variable or from the default, and their
+   * arguments may be quoted and contain placeholders. A string made of exactly
+   * one placeholder with filters is replaced by the result of the pipeline.
+   *
+   * `true` enables the built-in filters (`trim`, `upper`, `lower`, `base64`,
+   * `base64decode`, `urlencode`, `urldecode`, `join` and the type hints) and the
+   * ones added with {@link registerFilter}; an object adds filters for this
+   * call only. Encoders (see `encode`) can end a pipeline too. Unknown or failing filters throw a {@link FilterError}.
+   * Defaults to false.
+   */
+  filters?: boolean | Record<string, FilterFunction>;
+  /**
+   * Enable references to other values of the same input: a placeholder whose
+   * name is `@` followed by a path, written like the paths of error messages
+   * (`@db.host`, `@servers[0].port` or `@headers["x-api-key"]`), is replaced
+   * by the value at that path. Referenced strings are interpolated first, so
+   * references can be chained, and circular references throw a
+   * {@link CycleError}. A string made of exactly one reference is replaced by
+   * the referenced value itself, which may be an object or an array shared
+   * with its original location in the result. Defaults to false.
+   */
+  references?: boolean;
+  /**
+   * Placeholder delimiters: the name of a built-in dialect or custom tokens.
+   *
+   * - `"default"`: `${VAR:default}`
+   * - `"mustache"`: `{{VAR:default}}`
+   * - `"bare"`: `$VAR`, without defaults
+   * - `"windows"`: `%VAR%` or `%VAR:default%`
+   *
+   * Brace balancing, escapes (a backslash before the opening token) and
+   * defaults follow the chosen delimiters, and any other syntax is left
+   * untouched. In POSIX mode the operators replace the separator. Defaults to
+   * `"default"`.
+   */
+  syntax?: SyntaxDialect | PlaceholderSyntax;
+  /**
+   * Grammar of variable names: the name of a preset or a custom validator.
+   * Placeholders with invalid names are left untouched.
+   *
+   * - `"default"`: letters, digits and `_` (`DB_HOST`)
+   * - `"posix"`: environment variable names, not starting with a digit
+   * - `"dotted"`: dot-separated segments of letters, digits, `_` and `-`
+   *   (`spring.datasource.url`, `service.max-connections`)
+   * - `"kebab"`: dash-separated words of letters, digits and `_`
+   *   (`feature-flag`)
+   * - `"unicode"`: Unicode identifiers (`größe`, `名前`)
+   *
+   * When a name may contain the separator (or a POSIX operator), the key is
+   * the longest valid name before a separator: `${db:host}` reads `db:host`
+   * when the grammar accepts colons. When that name is not defined, the
+   * longest valid name followed by a default is used instead, so
+   * `${db:host:localhost}` reads `db:host` with the default `localhost`.
+   * Quote defaults that contain the separator in that case. Defaults to
+   * `"default"`.
+   */
+  names?: NameGrammar | ((name: string) => boolean);
+  /**
+   * Interpolate property names too (`{ "${REGION}": {...} }`). When two keys
+   * of an object resolve to the same name, the policy decides what happens:
+   *
+   * - `"error"` (or `true`): throw a {@link KeyCollisionError}
+   * - `"first"`: keep the property that comes first
+   * - `"merge"`: deep merge the values; plain objects are merged key by key
+   *   and any other value replaces the previous one
+   *
+   * Paths in error messages and references keep the keys as written.
+   * Defaults to false.
+   */
+  keys?: boolean | KeyCollisionPolicy;
+  /**
+   * Custom handling of objects that are not plain objects, arrays, `Map`s or
+   * `Set`s. By default class instances and subclasses of `Map` and `Set` are
+   * copied with their prototype and their content interpolated, or kept as
+   * they are when their content has no placeholder, and built-in objects with
+   * internal state (dates, regular expressions, errors, buffers, typed
+   * arrays...) are kept as they are. The visitor is called first and can return the value to
+   * use instead, or `undefined` for the default handling.
+   */
+  visit?: ObjectVisitor;
+  /**
+   * Escape every substituted value for the context it is inserted into: the
+   * name of an encoder (`url`, `json-string`, `shell-single-quote`, `html`,
+   * `xml`, `raw` or one added with {@link registerEncoder}) or a function.
+   * The whole replacement of each placeholder is encoded, defaults included;
+   * literal text and values still containing unresolved placeholders are kept
+   * as written. Placeholders whose pipeline uses an encoder (`${NAME|raw}`)
+   * are encoded by their pipeline only. Defaults to no encoding.
+   */
+  encode?: string | EncoderFunction;
+}
+
+/**
+ * Handles an object that is not a plain object, array, `Map` or `Set` for
+ * {@link interpolate}. Receives the object, a function interpolating any value
+ * found in it (pass the property name or index to extend error paths) and the
+ * path of the object. Returns the value to use in the result, or `undefined`
+ * for the default handling. An object reached again while it is being visited
+ * is kept unchanged.
+ *
+ * @example
+ * const visit: ObjectVisitor = (value, interpolate) =>
+ *   value instanceof URL ? new URL(interpolate(value.href) as string) : undefined;
+ */
+export type ObjectVisitor = (
+  value: object,
+  interpolate: (child: unknown, key?: string | number) => unknown,
+  path: string,
+) => unknown;
+
+/**
+ * What happens when two interpolated keys of an object resolve to the same
+ * name. See {@link InterpolateOptions.keys}.
+ */
+export type KeyCollisionPolicy = "error" | "first" | "merge";
+
+/**
+ * Names of the built-in variable-name grammars (see {@link InterpolateOptions.names}).
+ */
+export type NameGrammar = "default" | "posix" | "dotted" | "kebab" | "unicode";
+
+/**
+ * Names of the built-in placeholder dialects (see {@link InterpolateOptions.syntax}).
+ */
+export type SyntaxDialect = "default" | "mustache" | "bare" | "windows";
+
+/**
+ * Custom placeholder delimiters.
+ *
+ * @example
+ * const syntax: PlaceholderSyntax = { open: '<%=', close: '%>', separator: '|' };
+ * interpolate('<%=VAR|default%>', {}, { syntax });
+ * // Returns: 'default'
+ */
+export interface PlaceholderSyntax {
+  /** Token starting a placeholder, e.g. `${`. Must not be empty. */
+  open: string;
+  /**
+   * Token ending a placeholder, e.g. `}`. When empty, a placeholder ends with
+   * its variable name (as in `$VAR`) and cannot have a default.
+   */
+  close: string;
+  /** Token between the variable name and its default. Defaults to `:`. */
+  separator?: string;
+}
+
+/**
+ * Operator between the variable name and the default (or word) of a
+ * placeholder. `:` is the default syntax; the others are POSIX operators.
+ */
+type Operator = ":" | ":-" | "-" | ":?" | "?" | ":+" | "+";
+
+/**
+ * A single source of variables: a plain object (such as `process.env`), a `Map`,
+ * or a lookup function returning `undefined` for variables it does not define.
+ */
+export type VariableSource =
+  | Record<string, string | undefined>
+  | Map<string, string | undefined>
+  | ((key: string) => string | undefined);
+
+/**
+ * A variable source labelled with a name, reported by
+ * {@link VariableResolver.explain}.
+ *
+ * @example
+ * const layer: NamedVariableSource = ['cli', { PORT: '8081' }];
+ */
+export type NamedVariableSource = [name: string, source: VariableSource];
+
+/**
+ * Variables accepted by {@link interpolate}: a single source, or an ordered list
+ * of sources where the first source that defines a key wins.
+ */
+export type Variables =
+  | VariableSource
+  | Array<VariableSource | NamedVariableSource>;
+
+/**
+ * Where a resolved variable came from.
+ */
+export interface ResolvedVariable {
+  /** Variable name. */
+  key: string;
+  /** Resolved value. */
+  value: string;
+  /** Index of the layer that supplied the value. */
+  layer: number;
+  /** Name of the layer that supplied the value (`layer #<index>` when unnamed). */
+  name: string;
+}
+
+/**
+ * Lookup function over layered variable sources, created by
+ * {@link createResolver}. Can be passed anywhere variables are accepted.
+ */
+export interface VariableResolver {
+  (key: string): string | undefined;
+  /** Names of the layers, in priority order. */
+  readonly layers: ReadonlyArray<string>;
+  /**
+   * Resolves `key` and reports which layer supplied its value, or `undefined`
+   * when no layer defines it.
+   */
+  explain(key: string): ResolvedVariable | undefined;
+}
+
+/**
+ * Options for {@link interpolateAsync}. Extends the synchronous options with
+ * provider settings.
+ */
+export interface InterpolateAsyncOptions extends InterpolateOptions {
+  /**
+   * Default timeout in milliseconds applied to every provider call that does not
+   * define its own `timeout`. Unlimited when omitted.
+   */
+  timeout?: number;
+}
+
+/**
+ * Values returned by a provider. Variables that are missing or `undefined` are
+ * treated as not defined by that provider and are asked to the next one.
+ */
+export type ProviderResult =
+  | Record<string, string | undefined>
+  | Map<string, string | undefined>;
+
+/**
+ * Resolves a batch of variable names at once. Receives every still-unresolved
+ * key discovered in the input, de-duplicated.
+ *
+ * @example
+ * const fromVault: ProviderFunction = async (keys) => {
+ *   const response = await fetch(`https://vault.local/v1/batch?keys=${keys.join(',')}`);
+ *   return response.json();
+ * };
+ */
+export type ProviderFunction = (
+  keys: string[],
+) => Promise<ProviderResult> | ProviderResult;
+
+/**
+ * An asynchronous source of variables for {@link interpolateAsync}.
+ */
+export interface VariableProvider {
+  /** Name used in error messages. Defaults to `provider #<index>`. */
+  name?: string;
+  /** Batched resolver function. */
+  resolve: ProviderFunction;
+  /** Timeout in milliseconds for a single `resolve` call. */
+  timeout?: number;
+}
+
+/**
+ * Looks up a single variable. Returns `undefined` when it is not defined.
+ */
+type VariableLookup = (key: string) => string | undefined;
+
+/**
+ * Parts of a placeholder, as returned by {@link parsePlaceholder}.
+ */
+interface ParsedPlaceholder {
+  key: string;
+  filters?: FilterCall[];
+  operator?: Operator;
+  defaultValue?: string;
+}
+
+/**
+ * Secret handling requested from {@link interpolateWith}: which variables are
+ * secret, how to redact them and where to report their use.
+ */
+interface SecretHandling {
+  isSecret: (key: string) => boolean;
+  /** Text replacing the values of secrets in the redacted twin. */
+  mask: string;
+  /** Receives every secret substituted, with the path of its string. */
+  audit: Array<{ key: string; path: string }>;
+  /** Receives the redacted twin of the result. */
+  redacted?: unknown;
+}
+
+/**
+ * Extra work requested from {@link interpolateWith} by the secret-aware,
+ * reporting and compiled entry points.
+ */
+interface EngineHooks {
+  secrets?: SecretHandling;
+  /** Receives the report of every string containing placeholders. */
+  report?: InterpolationReport;
+  /** Texts parsed ahead of time by {@link parseText}, by text. */
+  templates?: ReadonlyMap<string, Segment[]>;
+  /** Receives the result of every string and the variables it used, by path. */
+  tracked?: Map<string, TrackedString>;
+  /** Results to reuse instead of interpolating strings again, by path. */
+  reuse?: ReadonlyMap<string, TrackedString>;
+}
+
+/**
+ * The result of a string and the variables looked up to produce it, nested
+ * variables and defaults included.
+ */
+interface TrackedString {
+  value: unknown;
+  variables: ReadonlySet<string>;
+}
+
+/**
+ * Extra work requested from {@link resolveString} for a single string.
+ */
+interface StringHooks {
+  secrets?: SecretHandling;
+  /** Receives the secret variables substituted. */
+  injected?: Set<string>;
+  /** Redacted twin of a referenced value, when a secret was substituted in it. */
+  redactReference?: (key: string) => string | undefined;
+  /** Receives the placeholders found and how deep resolution went. */
+  report?: PathReport;
+  /** Texts parsed ahead of time by {@link parseText}, by text. */
+  templates?: ReadonlyMap<string, Segment[]>;
+  /**
+   * Receives the texts parsed, to reuse them for other strings of the call;
+   * texts seen once are listed without their segments.
+   */
+  parsed?: Map<string, Segment[] | undefined>;
+}
+
+/**
+ * Options normalized by {@link resolveOptions}, once per call rather than for
+ * every string or placeholder.
+ */
+interface ResolvedOptions {
+  syntax: Required<PlaceholderSyntax>;
+  isName: (name: string) => boolean;
+  encode?: EncoderFunction;
+}
+
+/**
+ * A placeholder to resolve, as found by {@link parseText}.
+ */
+interface PlaceholderSegment extends ParsedPlaceholder {
+  /** The placeholder as written. */
+  full: string;
+  /** Whether the key is an intra-document reference. */
+  reference: boolean;
+  /** Whether the placeholder is the whole text. */
+  lone: boolean;
+  /**
+   * Longest split with a default, used when the whole content is a valid key
+   * that is not defined (names containing the separator).
+   */
+  fallback: ParsedPlaceholder | undefined;
+}
+
+/**
+ * Part of a parsed text: literal text or a placeholder.
+ */
+type Segment = string | PlaceholderSegment;
+
+/**
+ * Segment of the location of a string within the traversed structure: object
+ * keys are strings and array indexes are numbers.
+ */
+type PathSegment = string | number;
+
+/**
+ * Renaming of object keys requested from {@link traverse}.
+ */
+interface KeyHandling {
+  /** Returns the new name of the key at `path`. */
+  rename: (key: string, path: ReadonlyArray<PathSegment>) => string;
+  onCollision: KeyCollisionPolicy;
+}
+
+/**
+ * Extra work requested from {@link traverse}.
+ */
+interface TraverseHooks {
+  keys?: KeyHandling;
+  /**
+   * Returns the copy of an object that is not a plain object, array, `Map` or
+   * `Set`, or `undefined` to keep it.
+   */
+  visit?: (value: object, path: ReadonlyArray<PathSegment>) => unknown;
+}
+
+/**
+ * An unresolved placeholder found by {@link replace}, positioned within the
+ * string it belongs to.
+ */
+type UnresolvedMatch = Omit<UnresolvedPlaceholder, "path">;
+
+/**
+ * Text produced by {@link replace} for a string, with the placeholders left
+ * unresolved in it.
+ */
+interface Resolved {
+  text: string;
+  unresolved: readonly UnresolvedMatch[];
+  /** Result of the filters when the string is a single placeholder with filters. */
+  value?: unknown;
+  /** The text with secrets masked, when a secret was substituted in it. */
+  redacted?: string;
+}
+
+// Precompiled validation regex for variable names (letters, numbers, underscore)
+const VAR_NAME_RE = /^[A-Z0-9_]+$/i;
+// Validators of the built-in variable-name grammars
+const NAME_GRAMMARS = new Map<string, (name: string) => boolean>(
+  Object.entries({
+    default: VAR_NAME_RE,
+    posix: /^[A-Za-z_][A-Za-z0-9_]*$/,
+    dotted: /^[\w-]+(?:\.[\w-]+)*$/,
+    kebab: /^\w+(?:-\w+)*$/,
+    unicode: /^[\p{ID_Start}_]\p{ID_Continue}*$/u,
+  }).map(([name, re]) => [name, (key: string) => re.test(key)]),
+);
+// Built-in types whose instances are kept as they are
+const OPAQUE_TYPES: Array<abstract new (...args: never[]) => object> = [
+  Date,
+  RegExp,
+  Error,
+  Promise,
+  WeakMap,
+  WeakSet,
+  WeakRef,
+  ArrayBuffer,
+  ...(typeof SharedArrayBuffer === "undefined" ? [] : [SharedArrayBuffer]),
+  ...(typeof URL === "undefined" ? [] : [URL, URLSearchParams]),
+];
+// First character of a POSIX parameter-expansion operator
+const POSIX_OPERATOR_RE = /[:\-?+]/;
+// A filter of a pipeline: `name` or `name(arguments)`
+const FILTER_CALL_RE = /^([A-Za-z_][\w-]*)\s*(?:\(([\s\S]*)\))?$/;
+// Delimiters of the built-in dialects
+const SYNTAX_DIALECTS = new Map<string, Required<PlaceholderSyntax>>([
+  ["default", { open: "${", close: "}", separator: ":" }],
+  ["mustache", { open: "{{", close: "}}", separator: ":" }],
+  ["bare", { open: "$", close: "", separator: ":" }],
+  ["windows", { open: "%", close: "%", separator: ":" }],
+]);
+const DEFAULT_SYNTAX = SYNTAX_DIALECTS.get(
+  "default",
+) as Required<PlaceholderSyntax>;
+// Opening brackets balanced inside placeholders closed by the matching bracket
+const OPENING_BRACKETS = new Map([
+  ["}", "{"],
+  [")", "("],
+  ["]", "["],
+]);
+// Longest candidate name of a placeholder without closing token (e.g. `$VAR`)
+const BARE_NAME_RE = /[\p{L}\p{M}\p{N}_.-]+/uy;
+// Keys that can be written with dot notation when formatting paths
+const IDENTIFIER_RE = /^[A-Za-z_$][\w$]*$/;
+// One segment of a reference path: `key`, `.key`, `[0]` or `["key"]`
+const PATH_SEGMENT_RE =
+  /(\.?)([A-Za-z_$][\w$]*)|\[(\d+)\]|\[("(?:[^"\\]|\\.)*")\]/y;
+// Nesting depth never expanded, which keeps resolution within the call stack
+const MAX_NESTING = 1000;
+// Shared by the many results without unresolved placeholder
+const NO_MATCHES: readonly UnresolvedMatch[] = [];
+
+/**
+ * Removes wrapping quotes from a string if they match (both single or both double).
+ * Only removes quotes if the string starts and ends with the same quote type.
+ * Preserves mismatched quotes and nested quotes.
+ *
+ * @param s The string to unquote
+ * @returns The string with matching wrapping quotes removed
+ *
+ * @example
+ * unquote('"hello"') // returns: hello
+ * unquote("'world'") // returns: world
+ * unquote('"mixed\'') // returns: "mixed' (no change)
+ * unquote('unquoted') // returns: unquoted (no change)
+ */
+function unquote(s: string): string {
+  return (s.startsWith('"') && s.endsWith('"')) ||
+    (s.startsWith("'") && s.endsWith("'"))
+    ? s.slice(1, -1)
+    : s;
+}
+
+/**
+ * Normalizes the `syntax` option into delimiters.
+ *
+ * @param syntax Name of a built-in dialect or custom delimiters.
+ * @returns The delimiters, with the separator filled in.
+ * @throws {TypeError} When the dialect is unknown or the opening token is empty.
+ */
+function resolveSyntax(
+  syntax: SyntaxDialect | PlaceholderSyntax = "default",
+): Required<PlaceholderSyntax> {
+  if (typeof syntax === "string") {
+    const dialect = SYNTAX_DIALECTS.get(syntax);
+    if (!dialect) throw new TypeError(`Unknown syntax dialect "${syntax}"`);
+    return dialect;
+  }
+  if (!syntax.open) throw new TypeError("The opening token must not be empty");
+  if (syntax.separator === "") {
+    throw new TypeError("The separator must not be empty");
+  }
+  return { separator: ":", ...syntax };
+}
+
+/**
+ * Normalizes the `names` option into a validator.
+ *
+ * @param names Name of a built-in grammar or a custom validator.
+ * @returns A function telling whether a variable name is valid.
+ * @throws {TypeError} When the grammar is unknown.
+ */
+function nameValidator(
+  names: NameGrammar | ((name: string) => boolean) = "default",
+): (name: string) => boolean {
+  if (typeof names === "function") return names;
+  const validator = NAME_GRAMMARS.get(names);
+  if (!validator) throw new TypeError(`Unknown name grammar "${names}"`);
+  return validator;
+}
+
+/**
+ * Normalizes the `syntax`, `names` and `encode` options.
+ *
+ * @param options Interpolation options.
+ * @returns The delimiters, name validator and encoder to use.
+ * @throws {TypeError} When one of the options is invalid.
+ */
+function resolveOptions(options: InterpolateOptions): ResolvedOptions {
+  const encode =
+    typeof options.encode === "string"
+      ? getEncoder(options.encode)
+      : options.encode;
+  if (options.encode !== undefined && !encode) {
+    throw new TypeError(`Unknown encoder "${options.encode}"`);
+  }
+  return {
+    syntax: resolveSyntax(options.syntax),
+    isName: nameValidator(options.names),
+    encode,
+  };
+}
+
+/**
+ * Finds the next placeholder in a string of the form `${...}` while supporting
+ * nested braces (e.g. `${OUTER:${INNER:Default}}`). Returns metadata needed for
+ * replacement or `null` if none found.
+ *
+ * This function performs brace-balanced parsing to correctly handle nested placeholders
+ * within default values. It scans from a given index and returns detailed information
+ * about the first complete placeholder found. Other delimiters can be given with
+ * `syntax`: nested opening tokens are balanced against closing tokens, and bare
+ * brackets are balanced too when the closing token is a single bracket (so that
+ * `${VAR:{"a":1}}` keeps its JSON default). An opening token that is never
+ * closed is skipped, so that the placeholders after it are still found.
+ *
+ * @internal
+ * @param str The string to search for placeholders.
+ * @param fromIndex The starting index for the search. Defaults to 0.
+ * @param syntax The placeholder delimiters. Defaults to `${` and `}`.
+ * @param isName Validator of variable names, used when there is no closing token.
+ * @param unclosed Offsets of the opening tokens known to be never closed. Pass the same set when searching the same string again, so that the text after them is not scanned again for each of them.
+ * @returns An object containing placeholder metadata (start, end, inner content, full text) or null if no placeholder is found.
+ *
+ * @example
+ * // Simple placeholder
+ * findNextPlaceholder('Hello ${NAME:Guest}!');
+ * // Returns: { start: 6, end: 17, inner: 'NAME:Guest', full: '${NAME:Guest}' }
+ *
+ * @example
+ * // Nested placeholder in default value
+ * findNextPlaceholder('${GREETING:Hello ${USER:Guest}}');
+ * // Returns: { start: 0, end: 30, inner: 'GREETING:Hello ${USER:Guest}', full: '${GREETING:Hello ${USER:Guest}}' }
+ *
+ * @example
+ * // No placeholder found
+ * findNextPlaceholder('Just a regular string');
+ * // Returns: null
+ *
+ * @example
+ * // Searching from a specific index
+ * findNextPlaceholder('${A:1} and ${B:2}', 7);
+ * // Returns: { start: 9, end: 14, inner: 'B:2', full: '${B:2}' }
+ *
+ * @example
+ * // Custom delimiters
+ * findNextPlaceholder('Hi {{NAME}}', 0, { open: '{{', close: '}}' });
+ * // Returns: { start: 3, end: 10, inner: 'NAME', full: '{{NAME}}' }
+ *
+ * @example
+ * // Recovering from an unclosed placeholder
+ * findNextPlaceholder('${A and ${B}');
+ * // Returns: { start: 8, end: 11, inner: 'B', full: '${B}' }
+ */
+function findNextPlaceholder(
+  str: string,
+  fromIndex = 0,
+  syntax: PlaceholderSyntax = DEFAULT_SYNTAX,
+  isName: (name: string) => boolean = isValidVarName,
+  unclosed = new Set<number>(),
+): { start: number; end: number; inner: string; full: string } | null {
+  const { open, close } = syntax;
+  let start = str.indexOf(open, fromIndex);
+  if (start === -1) return null;
+
+  if (close === "") {
+    // Without closing token the placeholder ends with the longest valid name
+    while (start !== -1) {
+      BARE_NAME_RE.lastIndex = start + open.length;
+      let name = BARE_NAME_RE.exec(str)?.[0] ?? "";
+      while (name && !isName(name)) name = name.slice(0, -1);
+      if (name) {
+        return {
+          start,
+          end: start + open.length + name.length - 1,
+          inner: name,
+          full: open + name,
+        };
+      }
+      start = str.indexOf(open, start + 1);
+    }
+    return null;
+  }
+
+  // Unclosed opening tokens stay literal, look for the next one
+  while (start !== -1 && unclosed.has(start)) {
+    start = str.indexOf(open, start + 1);
+  }
+  if (start === -1) return null;
+  const match = firstClosed(str, start, syntax, unclosed);
+  if (!match) return null;
+  return {
+    start: match.start,
+    end: match.close + close.length - 1,
+    // substring without the wrapping delimiters
+    inner: str.substring(match.start + open.length, match.close),
+    full: str.substring(match.start, match.close + close.length),
+  };
+}
+
+/**
+ * Finds the first opening token from `start` that gets closed, matching every
+ * opening token in a single scan of the text. The opening tokens still open at
+ * the end of the text are never closed and are added to `unclosed`.
+ *
+ * @param str The string to scan.
+ * @param start Offset of the first opening token.
+ * @param syntax The placeholder delimiters; `close` must not be empty.
+ * @param unclosed Receives the offsets of the opening tokens never closed.
+ * @returns The offsets of the opening token and of its closing token.
+ */
+function firstClosed(
+  str: string,
+  start: number,
+  syntax: PlaceholderSyntax,
+  unclosed: Set<number>,
+): { start: number; close: number } | undefined {
+  const { open, close } = syntax;
+  const bracket = OPENING_BRACKETS.get(close);
+  // Only characters starting a token need a closer look
+  const closeStart = close.charCodeAt(0);
+  const openStart = open.charCodeAt(0);
+  const bracketCode =
+    bracket !== undefined && open.endsWith(bracket)
+      ? bracket.charCodeAt(0)
+      : -1;
+  // Offsets of the opening tokens not closed yet, -1 for bare brackets
+  const opened = [start];
+  let first: { start: number; close: number } | undefined;
+  for (let i = start + open.length; i < str.length; ) {
+    const code = str.charCodeAt(i);
+    if (code !== closeStart && code !== openStart && code !== bracketCode) {
+      i++;
+    } else if (str.startsWith(close, i)) {
+      const from = opened.pop() as number;
+      if (opened.length === 0) return { start: from, close: i };
+      // A nested token closed while an outer one may never be
+      if (from !== -1 && (!first || from < first.start)) {
+        first = { start: from, close: i };
+      }
+      i += close.length;
+    } else if (str.startsWith(open, i)) {
+      opened.push(i);
+      i += open.length;
+    } else {
+      if (code === bracketCode) opened.push(-1);
+      i++;
+    }
+  }
+  for (const offset of opened) {
+    if (offset !== -1) unclosed.add(offset);
+  }
+  return first;
+}
+
+/**
+ * Parses the inner content of a placeholder, splitting at the first `:` (or the
+ * separator of the `syntax` option) into variable key and optional default
+ * value. Colons appearing later (e.g. inside JSON or quoted strings) are
+ * preserved in the default portion. When the name grammar accepts the
+ * separator, the split giving the longest valid key wins instead. When that
+ * is the whole content, the longest valid split with a default is added to
+ * `alternatives`.
+ *
+ * In POSIX mode the key ends at the first operator character (`:`, `-`, `?` or
+ * `+`) and the operator is returned alongside the word that follows it.
+ * Unsupported operators yield the whole inner content as key so that the
+ * placeholder fails name validation and is left unchanged.
+ *
+ * In coercion and filter modes a `|filter|hint(arg)` pipeline following the key
+ * is returned as `filters`; with the `encode` option alone, only a pipeline of
+ * encoders is. Callers parsing many placeholders pass the
+ * normalized `syntax` and `isName` rather than have them resolved every time.
+ */
+function parsePlaceholder(
+  inner: string,
+  options: Pick<
+    InterpolateOptions,
+    | "posix"
+    | "coerce"
+    | "filters"
+    | "encode"
+    | "syntax"
+    | "names"
+    | "references"
+  > = {},
+  syntax: Required<PlaceholderSyntax> = resolveSyntax(options.syntax),
+  isName: (name: string) => boolean = nameValidator(options.names),
+  alternatives?: ParsedPlaceholder[],
+): ParsedPlaceholder {
+  let candidates = splitCandidates(inner, options.posix, syntax.separator);
+  if (options.coerce || options.filters || options.encode) {
+    // With encoding alone, only encoders make up a pipeline (`${NAME|raw}`)
+    const encodersOnly = !options.coerce && !options.filters;
+    candidates = candidates.map((candidate): ParsedPlaceholder => {
+      const pipeline = parsePipeline(candidate.key);
+      if (
+        !pipeline ||
+        (encodersOnly &&
+          !pipeline.filters.every(({ name }) => getEncoder(name)))
+      ) {
+        return candidate;
+      }
+      return { ...candidate, ...pipeline };
+    });
+  }
+
+  // Prefer the longest valid key, so that names may contain the separator
+  let found: ParsedPlaceholder | undefined;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const { key } = candidates[i];
+    if (isName(key) || (options.references && referencePath(key))) {
+      if (found) {
+        alternatives?.push(candidates[i]);
+        break;
+      }
+      found = candidates[i];
+      if (!alternatives || found.operator) break;
+    }
+  }
+  return found ?? candidates[0];
+}
+
+/**
+ * Lists the ways the inner content of a placeholder can be split into key,
+ * operator and default (see {@link parsePlaceholder}), from the shortest key
+ * to the whole content used as key.
+ */
+function splitCandidates(
+  inner: string,
+  posix = false,
+  separator = ":",
+): ParsedPlaceholder[] {
+  const candidates: ParsedPlaceholder[] = [];
+  const split = (idx: number, operator: string) =>
+    candidates.push({
+      key: inner.substring(0, idx),
+      operator: (posix ? operator : ":") as Operator,
+      defaultValue: inner.substring(idx + operator.length),
+    });
+
+  if (!posix) {
+    for (
+      let idx = inner.indexOf(separator);
+      idx !== -1;
+      idx = inner.indexOf(separator, idx + 1)
+    ) {
+      split(idx, separator);
+    }
+  } else {
+    for (let idx = 0; idx < inner.length; idx++) {
+      let operator = inner[idx];
+      if (!POSIX_OPERATOR_RE.test(operator)) continue;
+      if (operator === ":") {
+        const next = inner[idx + 1];
+        // Unsupported operators such as `${VAR:word}` are not a split
+        if (next !== "-" && next !== "?" && next !== "+") {
+          if (candidates.length === 0) return [{ key: inner }];
+          continue;
+        }
+        operator += next;
+      }
+      split(idx, operator);
+    }
+  }
+
+  candidates.push({ key: inner });
+  return candidates;
+}
+
+/**
+ * Splits `text` at every `delimiter` found outside quotes, brackets and nested
+ * placeholders. Returns `undefined` when quotes or brackets are unbalanced.
+ */
+function splitTopLevel(text: string, delimiter: string): string[] | undefined {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let from = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = undefined;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "(" || ch === "{" || ch === "[") {
+      depth++;
+    } else if (ch === ")" || ch === "}" || ch === "]") {
+      if (--depth < 0) return undefined;
+    } else if (ch === delimiter && depth === 0) {
+      parts.push(text.substring(from, i));
+      from = i + 1;
+    }
+  }
+  if (quote || depth !== 0) return undefined;
+  parts.push(text.substring(from));
+  return parts;
+}
+
+/**
+ * Parses the key part of a placeholder followed by a filter pipeline, such as
+ * `NAME | trim | join(a, "b,c")`. Returns `undefined` when there is no
+ * pipeline or it is malformed.
+ */
+function parsePipeline(
+  text: string,
+): { key: string; filters: FilterCall[] } | undefined {
+  const parts = text.includes("|") ? splitTopLevel(text, "|") : undefined;
+  if (!parts) return undefined;
+
+  const filters: FilterCall[] = [];
+  for (const part of parts.slice(1)) {
+    const match = FILTER_CALL_RE.exec(part.trim());
+    if (!match) return undefined;
+    const [, name, list] = match;
+    const args = list?.trim() ? splitTopLevel(list, ",") : [];
+    if (!args) return undefined;
+    filters.push({ name, args: args.map((arg) => arg.trim()) });
+  }
+  return { key: parts[0].trim(), filters };
+}
+
+/**
+ * Decides which text replaces a placeholder according to its operator:
+ * - `"value"`: the looked-up value of the variable
+ * - `"word"`: the default or alternate value following the operator
+ * - `"empty"`: an empty string
+ * - `"required"`: nothing, the variable is required and missing
+ * - `undefined`: nothing, the placeholder stays unresolved
+ *
+ * @param value Looked-up value, `undefined` when the variable is unset.
+ * @param operator Operator of the placeholder, if any.
+ * @param word Default, alternate value or error message following the operator.
+ * @returns The kind of replacement to use.
+ */
+function selectReplacement(
+  value: string | undefined,
+  operator: Operator | undefined,
+  word: string | undefined,
+): "value" | "word" | "empty" | "required" | undefined {
+  const isSet = value !== undefined;
+  const isNonEmpty = isSet && value !== "";
+
+  switch (operator) {
+    case undefined:
+      return isSet ? "value" : undefined;
+    case ":":
+      // Empty default (e.g. ${NAME:}) => keep original placeholder
+      if (isSet) return "value";
+      return word === "" ? undefined : "word";
+    case ":-":
+      return isNonEmpty ? "value" : "word";
+    case "-":
+      return isSet ? "value" : "word";
+    case ":+":
+      return isNonEmpty ? "word" : "empty";
+    case "+":
+      return isSet ? "word" : "empty";
+    case ":?":
+    case "?":
+      return (operator === ":?" ? isNonEmpty : isSet) ? "value" : "required";
+  }
+}
+
+/**
+ * Tells where the text replacing a placeholder comes from, for reports.
+ *
+ * @param selected Replacement chosen by {@link selectReplacement}.
+ * @param reference Whether the placeholder is an intra-document reference.
+ * @param depth Nesting depth of the placeholder.
+ * @returns The provenance of the replacement.
+ */
+function resolutionSource(
+  selected: ReturnType<typeof selectReplacement>,
+  reference: boolean,
+  depth: number,
+): ResolutionSource {
+  switch (selected) {
+    case "value":
+      return reference ? "reference" : "variable";
+    case "word":
+    case "empty":
+      return depth === 0 ? "default" : "nested-default";
+    default:
+      return "unresolved";
+  }
+}
+
+/**
+ * Creates a lookup function for a single variable source.
+ */
+function sourceLookup(source: VariableSource): VariableLookup {
+  if (typeof source === "function") return source;
+  if (source instanceof Map) return (key) => source.get(key);
+  return (key) => source[key];
+}
+
+/**
+ * Normalizes any accepted variables argument into a lookup function.
+ */
+function toLookup(variables: Variables): VariableLookup {
+  return Array.isArray(variables)
+    ? createResolver(variables)
+    : sourceLookup(variables);
+}
+
+/**
+ * Combines an ordered list of variable sources into a single resolver. The first
+ * source that defines a key (with a value other than `undefined`) wins, so list
+ * the most specific sources first. Sources can be named by passing a
+ * `[name, source]` tuple, and {@link VariableResolver.explain} reports which
+ * layer supplied a value.
+ *
+ * @param sources Plain objects, `Map`s, lookup functions or named tuples of them, highest priority first.
+ * @returns A resolver usable as the `variables` argument of {@link interpolate}.
+ *
+ * @example
+ * const resolver = createResolver([
+ *   ['cli', { PORT: '8081' }],
+ *   ['.env', new Map([['PORT', '3000'], ['HOST', 'localhost']])],
+ *   ['process.env', process.env],
+ * ]);
+ *
+ * interpolate('${HOST}:${PORT}', resolver);
+ * // Returns: 'localhost:8081'
+ *
+ * resolver.explain('PORT');
+ * // Returns: { key: 'PORT', value: '8081', layer: 0, name: 'cli' }
+ */
+export function createResolver(
+  sources: Array<VariableSource | NamedVariableSource>,
+): VariableResolver {
+  const layers = sources.map((entry, index) =>
+    Array.isArray(entry)
+      ? { name: entry[0], lookup: sourceLookup(entry[1]) }
+      : { name: `layer #${index}`, lookup: sourceLookup(entry) },
+  );
+
+  const explain = (key: string): ResolvedVariable | undefined => {
+    for (const [index, layer] of layers.entries()) {
+      const value = layer.lookup(key);
+      if (value !== undefined) {
+        return { key, value: String(value), layer: index, name: layer.name };
+      }
+    }
+    return undefined;
+  };
+
+  return Object.assign((key: string) => explain(key)?.value, {
+    layers: layers.map((layer) => layer.name),
+    explain,
+  });
+}
+
+/**
+ * Formats a traversal path as a JSON-style accessor such as
+ * `db.replicas[2].host`. Keys that are not plain identifiers are written in
+ * bracket notation (`headers["x-api-key"]`).
+ */
+function formatPath(path: ReadonlyArray<PathSegment>): string {
+  let out = "";
+  for (const segment of path) {
+    if (typeof segment === "number") out += `[${segment}]`;
+    else if (IDENTIFIER_RE.test(segment))
+      out += out === "" ? segment : `.${segment}`;
+    else out += `[${JSON.stringify(segment)}]`;
+  }
+  return out;
+}
+
+/**
+ * Parses a path written by {@link formatPath} back into segments. Returns
+ * `undefined` when the text is not a valid, non-empty path.
+ */
+function parsePath(text: string): PathSegment[] | undefined {
+  const path: PathSegment[] = [];
+  PATH_SEGMENT_RE.lastIndex = 0;
+  while (PATH_SEGMENT_RE.lastIndex < text.length) {
+    const first = path.length === 0;
+    const match = PATH_SEGMENT_RE.exec(text);
+    if (!match) return undefined;
+    const [, dot, name, index, quoted] = match;
+    if (name !== undefined) {
+      // Identifiers are separated by dots, except at the start
+      if ((dot === "") !== first) return undefined;
+      path.push(name);
+    } else if (index !== undefined) {
+      path.push(Number(index));
+    } else {
+      path.push(JSON.parse(quoted) as string);
+    }
+  }
+  return path.length > 0 ? path : undefined;
+}
+
+/**
+ * Returns the value found at `path` within `root`, or `undefined` when the path
+ * does not exist.
+ */
+function valueAt(root: unknown, path: ReadonlyArray<PathSegment>): unknown {
+  let node = root;
+  for (const segment of path) {
+    if (!node || typeof node !== "object" || !Object.hasOwn(node, segment)) {
+      return undefined;
+    }
+    node = (node as Record<PathSegment, unknown>)[segment];
+  }
+  return node;
+}
+
+/**
+ * Returns the path of a reference key such as `@db.host`, or `undefined` when
+ * the key is not a valid reference.
+ */
+function referencePath(key: string): PathSegment[] | undefined {
+  return key.startsWith("@") ? parsePath(key.slice(1)) : undefined;
+}
+
+/**
+ * Returns the path referenced by a string made of exactly one plain reference
+ * placeholder (e.g. a string referencing `@db`), or `undefined` otherwise.
+ */
+function loneReferenceOf(
+  str: string,
+  options: InterpolateOptions,
+  { syntax, isName }: ResolvedOptions = resolveOptions(options),
+): PathSegment[] | undefined {
+  const match = findNextPlaceholder(str, 0, syntax, isName);
+  if (!match || match.start !== 0 || match.end !== str.length - 1) {
+    return undefined;
+  }
+  const { key, filters, operator } = parsePlaceholder(
+    match.inner,
+    options,
+    syntax,
+    isName,
+  );
+  if (filters !== undefined || operator !== undefined) return undefined;
+  return referencePath(key);
+}
+
+/**
+ * Indicates whether a candidate variable name is valid with the default
+ * grammar. Invalid names cause the placeholder to be left unchanged.
+ */
+function isValidVarName(key: string): boolean {
+  return VAR_NAME_RE.test(key);
+}
+
+/**
+ * Interpolates a single string with the provided variables using recursive placeholder resolution.
+ * This is the core string interpolation function that handles the ${VARIABLE:default} syntax.
+ *
+ * Placeholders are resolved depth-first: the value of a variable, a default or an
+ * alternate value is itself interpolated before being substituted. The variables
+ * being expanded are tracked along the way, so a variable that ends up referencing
+ * itself (directly or through others) is reported as a {@link CycleError} instead of
+ * being expanded forever. Variable names must contain only letters, numbers, and
+ * underscores to be considered valid.
+ *
+ * @internal
+ * @param content The string content to interpolate.
+ * @param variables A variable source or ordered list of sources. Defaults to `process.env`.
+ * @param options Configuration options including escape processing behavior.
+ * @param unresolved Optional sink receiving the placeholders left unresolved in the final result.
+ * @returns The interpolated string with all placeholders resolved.
+ * @throws {CycleError} When variables reference each other in a loop.
+ *
+ * @example
+ * // Basic variable replacement
+ * replace('Hello ${NAME:World}!', { NAME: 'Alice' });
+ * // Returns: 'Hello Alice!'
+ *
+ * @example
+ * // Using default values
+ * replace('Server: ${HOST:localhost}:${PORT:8080}', { HOST: 'api.example.com' });
+ * // Returns: 'Server: api.example.com:8080'
+ *
+ * @example
+ * // Nested placeholder resolution
+ * replace('${GREETING:Hello ${USER:Guest}}!', { USER: 'Bob' });
+ * // Returns: 'Hello Bob!'
+ *
+ * @example
+ * // Escaped placeholders (when escape option is true)
+ * replace('Use \\${LITERAL} for literal text', {}, { escape: true });
+ * // Returns: 'Use ${LITERAL} for literal text'
+ *
+ * @example
+ * // Invalid variable names are left unchanged
+ * replace('${invalid-name:default}', {});
+ * // Returns: '${invalid-name:default}'
+ *
+ * @example
+ * // Cycles are reported
+ * replace('${A}', { A: '${B}', B: '${A}' });
+ * // Throws: CycleError: Circular variable reference: A -> B -> A
+ */
+function replace(
+  content: string,
+  variables: Variables = defaults,
+  options: InterpolateOptions = { escape: true },
+  unresolved?: UnresolvedMatch[],
+): string {
+  const result = resolveString(content, toLookup(variables), options);
+  unresolved?.push(...result.unresolved);
+  return result.text;
+}
+
+/**
+ * Splits `text` into literal text and the placeholders to resolve. The result
+ * does not depend on the variables: escapes are already applied to the literal
+ * text, and placeholders with invalid names are literal text too (the text
+ * inside them is still scanned for placeholders).
+ *
+ * When `partial` is given, `text` is the beginning of a longer text: parsing
+ * stops at the first placeholder that the rest of the text could change, and
+ * its offset is stored in `partial.end` (`text.length` when there is none).
+ * A literal placeholder may close on that opening token, as `%A B%` does in
+ * `\\%A B%C`; its backslashes are halved only when its closing token is
+ * there, so the text can only be cut off at `partial.start`, before them.
+ *
+ * @param text The text to parse.
+ * @param options Interpolation options.
+ * @param syntax Delimiters from {@link resolveSyntax}.
+ * @param isName Validator from {@link nameValidator}.
+ * @param partial Receives the end of the parsed text.
+ * @param partial.end Offset where parsing stopped.
+ * @param partial.start Offset up to which the text can be parsed on its own.
+ * @param partial.close Offset following the literal placeholder closing at
+ * `partial.end` or after, -1 when there is none.
+ * @returns The segments of the text, in order.
+ */
+function parseText(
+  text: string,
+  options: InterpolateOptions,
+  syntax: Required<PlaceholderSyntax>,
+  isName: (name: string) => boolean,
+  partial?: { end: number; start?: number; close?: number },
+): Segment[] {
+  const { escape = true } = options;
+  const segments: Segment[] = [];
+  let literal = "";
+  // Position up to which `text` has been copied into the segments
+  let copied = 0;
+  let parsedEnd = text.length;
+  const unclosed = new Set<number>();
+  // Split with a default of the current placeholder, see parsePlaceholder
+  const alternatives: ParsedPlaceholder[] = [];
+  // First literal placeholder with halved backslashes that may close at the
+  // end of the parsed text or after
+  let halved: { start: number; end: number } | undefined;
+
+  while (true) {
+    const match = findNextPlaceholder(text, copied, syntax, isName, unclosed);
+    if (partial) {
+      const pending = incompletePlaceholder(text, copied, syntax, unclosed);
+      if (pending !== -1 && (!match || pending <= match.start)) {
+        parsedEnd = pending;
+        break;
+      }
+    }
+    if (!match) break;
+
+    const { start, end, inner, full } = match;
+    // Count preceding backslashes
+    let backslashes = 0;
+    while (
+      start - backslashes > copied &&
+      text[start - backslashes - 1] === "\\"
+    ) {
+      backslashes++;
+    }
+    // In escape mode pairs of backslashes become single backslashes
+    literal +=
+      text.substring(copied, start - backslashes) +
+      "\\".repeat(escape ? Math.floor(backslashes / 2) : backslashes);
+    copied = end + 1;
+
+    if (escape && backslashes % 2 === 1) {
+      // Odd number of preceding backslashes escapes placeholder
+      literal += full;
+      continue;
+    }
+
+    // Setting the length is slow, and at most one split is added
+    alternatives.pop();
+    const placeholder = parsePlaceholder(
+      inner,
+      options,
+      syntax,
+      isName,
+      alternatives,
+    );
+    const reference =
+      options.references === true && placeholder.key.startsWith("@");
+    if (
+      reference ? !referencePath(placeholder.key) : !isName(placeholder.key)
+    ) {
+      // Leave placeholder literal but keep looking for placeholders inside it
+      literal += syntax.open;
+      copied = start + syntax.open.length;
+      if (escape && backslashes > 1 && !(halved && halved.end > start)) {
+        halved = { start: start - backslashes, end: end + 1 };
+      }
+      continue;
+    }
+
+    if (literal) segments.push(literal);
+    literal = "";
+    // Every segment has the same shape, which keeps resolution fast
+    segments.push({
+      key: placeholder.key,
+      filters: placeholder.filters,
+      operator: placeholder.operator,
+      defaultValue: placeholder.defaultValue,
+      full,
+      reference,
+      lone: start === 0 && end === text.length - 1,
+      fallback: placeholder.operator ? undefined : alternatives[0],
+    });
+  }
+
+  literal += text.substring(copied, parsedEnd);
+  if (literal) segments.push(literal);
+  if (partial) {
+    const split = halved && halved.end > parsedEnd ? halved : undefined;
+    partial.end = parsedEnd;
+    partial.start = split?.start ?? parsedEnd;
+    partial.close = split?.end ?? -1;
+  }
+  return segments;
+}
+
+/**
+ * Finds the first placeholder from `fromIndex` that text appended to `text`
+ * could change: an opening token that is not closed yet, or a bare name
+ * reaching the end of the text. `unclosed` holds the opening tokens already
+ * known to be unclosed (see {@link findNextPlaceholder}).
+ *
+ * @returns The offset of its opening token, or -1 when there is none.
+ */
+function incompletePlaceholder(
+  text: string,
+  fromIndex: number,
+  syntax: Required<PlaceholderSyntax>,
+  unclosed?: Set<number>,
+): number {
+  const { open, close } = syntax;
+  if (close === "") {
+    // Names do not contain the opening token, so only the last one can grow
+    const start = text.lastIndexOf(open);
+    if (start < fromIndex) return -1;
+    BARE_NAME_RE.lastIndex = start + open.length;
+    const name = BARE_NAME_RE.exec(text)?.[0] ?? "";
+    return start + open.length + name.length === text.length ? start : -1;
+  }
+  // Placeholders close in order: only the first opening token matters
+  const start = text.indexOf(open, fromIndex);
+  if (start === -1) return -1;
+  const known = unclosed ?? new Set<number>();
+  if (!known.has(start)) firstClosed(text, start, syntax, known);
+  return known.has(start) ? start : -1;
+}
+
+/**
+ * Lists the placeholders of `text` that would be resolved, with their offsets
+ * in `text`, for text left as written once `maxPasses` is reached.
+ */
+function leftPlaceholders(
+  text: string,
+  options: InterpolateOptions,
+  syntax: Required<PlaceholderSyntax>,
+  isName: (name: string) => boolean,
+): UnresolvedMatch[] {
+  const { escape = true } = options;
+  const found: UnresolvedMatch[] = [];
+  const unclosed = new Set<number>();
+  let from = 0;
+  let match;
+  while ((match = findNextPlaceholder(text, from, syntax, isName, unclosed))) {
+    const { start, end, inner, full } = match;
+    let backslashes = 0;
+    while (text[start - backslashes - 1] === "\\") backslashes++;
+    const { key } = parsePlaceholder(inner, options, syntax, isName);
+    const reference = options.references === true && key.startsWith("@");
+    if (escape && backslashes % 2 === 1) {
+      from = end + 1;
+    } else if (reference ? referencePath(key) : isName(key)) {
+      found.push({ key, placeholder: full, offset: start });
+      from = end + 1;
+    } else {
+      from = start + syntax.open.length;
+    }
+  }
+  return found;
+}
+
+/**
+ * Does the work of {@link replace}, also returning the unresolved placeholders
+ * and, for a string made of a single placeholder with filters, the untouched
+ * result of the filters. Secrets and provenance are recorded through `hooks`,
+ * which can also provide texts parsed ahead of time. Callers resolving many
+ * strings pass the options normalized once by {@link resolveOptions}.
+ */
+function resolveString(
+  content: string,
+  lookup: VariableLookup,
+  options: InterpolateOptions,
+  hooks: StringHooks = {},
+  { syntax, isName, encode }: ResolvedOptions = resolveOptions(options),
+): Resolved {
+  // Most strings of a configuration have no placeholder at all
+  if (!content.includes(syntax.open))
+    return { text: content, unresolved: NO_MATCHES };
+  const maxPasses = Math.min(options.maxPasses ?? Infinity, MAX_NESTING);
+  const { secrets, injected, redactReference, report, templates, parsed } =
+    hooks;
+  // Expanded variable values; only reusable when every level gets expanded
+  // and no report needs every nested placeholder. Created on first use.
+  const cacheable = (options.maxPasses ?? Infinity) === Infinity && !report;
+  let cache: Map<string, Resolved> | undefined;
+
+  /**
+   * Resolves the placeholders of `text`. `depth` counts the expansions leading
+   * to `text` and `chain` lists the variables currently being expanded.
+   */
+  const resolve = (
+    text: string,
+    depth: number,
+    chain: readonly string[],
+  ): Resolved => {
+    // Text without opening token is copied as it is
+    if (!text.includes(syntax.open)) return { text, unresolved: NO_MATCHES };
+    if (depth >= maxPasses) {
+      // Placeholders beyond the limit are left as written, and unresolved
+      const unresolved = leftPlaceholders(text, options, syntax, isName);
+      if (report && unresolved.length > 0) report.truncated = true;
+      return { text, unresolved };
+    }
+
+    let out = "";
+    // The output with secrets masked, from the first secret substituted on
+    let shown: string | undefined;
+    const pending: UnresolvedMatch[] = [];
+    let lone: unknown;
+
+    let segments = templates?.get(text) ?? parsed?.get(text);
+    if (!segments) {
+      segments = parseText(text, options, syntax, isName);
+      // Kept from the second time on: most texts are unique, and keeping
+      // them all would only burden the garbage collector
+      parsed?.set(text, parsed.has(text) ? segments : undefined);
+    }
+    for (const segment of segments) {
+      if (typeof segment === "string") {
+        out += segment;
+        if (shown !== undefined) shown += segment;
+        continue;
+      }
+
+      const { full, reference } = segment;
+      let { key, filters, operator, defaultValue } = segment;
+      let raw = lookup(key);
+      if (raw === undefined && segment.fallback) {
+        ({ key, filters, operator, defaultValue } = segment.fallback);
+        raw = lookup(key);
+      }
+      const value = raw === undefined ? undefined : String(raw);
+      const selected = selectReplacement(value, operator, defaultValue);
+      // Recorded before nested placeholders so the report reads top-down
+      const entry: PlaceholderResolution | undefined = report && {
+        key,
+        placeholder: full,
+        source: resolutionSource(selected, reference, depth),
+        depth,
+      };
+      if (report && entry) {
+        report.placeholders.push(entry);
+        report.passes = Math.max(report.passes, depth + 1);
+      }
+      let replacement: Resolved;
+      // Secrets read as the mask as a whole, whatever filters follow
+      let masked = false;
+      switch (selected) {
+        case undefined:
+          // Keep the original placeholder when unresolved
+          pending.push({ key, placeholder: full, offset: out.length });
+          out += full;
+          if (shown !== undefined) shown += full;
+          continue;
+        case "value":
+          if (secrets?.isSecret(key)) {
+            injected?.add(key);
+            masked = true;
+          }
+          // Referenced values are already interpolated by the caller
+          replacement = reference
+            ? {
+                text: value as string,
+                unresolved: NO_MATCHES,
+                redacted: redactReference?.(key),
+              }
+            : expandValue(key, value as string, depth, chain);
+          break;
+        case "word":
+          replacement = resolve(unquote(defaultValue ?? ""), depth + 1, chain);
+          break;
+        case "empty":
+          replacement = { text: "", unresolved: NO_MATCHES };
+          break;
+        case "required": {
+          const word = defaultValue
+            ? resolve(unquote(defaultValue), depth + 1, chain)
+            : undefined;
+          throw new RequiredVariableError(
+            key,
+            word
+              ? (word.redacted ?? word.text)
+              : operator === ":?"
+                ? "parameter null or not set"
+                : "parameter not set",
+          );
+        }
+      }
+
+      if (filters !== undefined) {
+        let sensitive = masked || replacement.redacted !== undefined;
+        // Captured instead of the parameters, so that resolving text without
+        // filters does not pay for the closure below
+        const argDepth = depth + 1;
+        const argChain = chain;
+        let value: unknown;
+        try {
+          // Filter the fully expanded value, not a nested placeholder
+          value = applyFilters(
+            key,
+            replacement.text,
+            filters,
+            options.filters,
+            (arg) => {
+              const expanded = resolve(unquote(arg), argDepth, argChain);
+              sensitive ||= expanded.redacted !== undefined;
+              return expanded.text;
+            },
+          );
+        } catch (error) {
+          // Failures would otherwise repeat secrets in logs
+          if (
+            sensitive &&
+            (error instanceof CoercionError || error instanceof FilterError)
+          ) {
+            throw error.redact();
+          }
+          throw error;
+        }
+        masked = sensitive;
+        if (segment.lone) lone = value;
+        replacement = { text: stringifyValue(value), unresolved: NO_MATCHES };
+      }
+      if (
+        encode &&
+        depth === 0 &&
+        replacement.unresolved.length === 0 &&
+        !filters?.some(({ name }) => getEncoder(name))
+      ) {
+        const { text, redacted } = replacement;
+        replacement = {
+          text: encode(text),
+          unresolved: NO_MATCHES,
+          redacted: redacted === undefined ? undefined : encode(redacted),
+        };
+        if (typeof lone === "string") lone = replacement.text;
+      }
+      if (entry) entry.value = replacement.text;
+      for (const nested of replacement.unresolved) {
+        pending.push({ ...nested, offset: out.length + nested.offset });
+      }
+      const twin = masked ? secrets?.mask : replacement.redacted;
+      if (twin !== undefined) shown ??= out;
+      out += replacement.text;
+      if (shown !== undefined) shown += twin ?? replacement.text;
+    }
+
+    return {
+      text: out,
+      unresolved: pending,
+      value: lone,
+      redacted: shown,
+    };
+  };
+
+  /**
+   * Expands the value of variable `key`, failing when `key` is already being
+   * expanded further up the chain.
+   */
+  const expandValue = (
+    key: string,
+    value: string,
+    depth: number,
+    chain: readonly string[],
+  ): Resolved => {
+    const index = chain.indexOf(key);
+    if (index !== -1) throw new CycleError([...chain.slice(index), key]);
+    // Values without placeholders need neither expansion nor caching
+    if (!value.includes(syntax.open))
+      return { text: value, unresolved: NO_MATCHES };
+
+    const cached = cache?.get(key);
+    if (cached) return cached;
+    const resolved = resolve(value, depth + 1, [...chain, key]);
+    if (cacheable) (cache ??= new Map()).set(key, resolved);
+    return resolved;
+  };
+
+  return resolve(content, 0, []);
+}
+
+/**
+ * Tells whether a value is a plain object: an object literal, a parsed JSON
+ * object or an object without prototype.
+ */
+function isPlainObject(value: unknown): value is Record<PropertyKey, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  // Object.prototype of any realm has no prototype itself
+  return proto === null || Object.getPrototypeOf(proto) === null;
+}
+
+/**
+ * Tells whether an object holds internal state that copying its properties
+ * would lose, such as a date or a typed array.
+ */
+function isOpaque(value: object): boolean {
+  return (
+    ArrayBuffer.isView(value) ||
+    OPAQUE_TYPES.some((type) => value instanceof type)
+  );
+}
+
+/**
+ * Recursively copies a value, passing every string to `replacer` together with
+ * its path. Shared and cyclic references are preserved through `seen`.
+ *
+ * Objects keep their prototype, symbol keys and non-enumerable properties, and
+ * `Map` values and `Set` entries are traversed too. Built-in objects with
+ * internal state (dates, regular expressions, buffers, typed arrays...) are
+ * kept as they are, and so are class instances and subclasses of `Map` and
+ * `Set` when nothing in them changes. `hooks.visit` can replace any object
+ * that is not a plain object, array, `Map` or `Set`, and `hooks.keys` renames
+ * object keys.
+ *
+ * `path` is extended in place while descending, so `replacer` and the hooks
+ * must copy it to keep it.
+ */
+function traverse(
+  value: unknown,
+  replacer: (s: string, path: ReadonlyArray<PathSegment>) => unknown,
+  seen = new WeakMap(),
+  path: PathSegment[] = [],
+  hooks: TraverseHooks = {},
+): unknown {
+  if (typeof value === "string") return replacer(value, path);
+  if (!value || typeof value !== "object") return value;
+  if (seen.has(value)) return seen.get(value);
+
+  if (Array.isArray(value)) {
+    const out: unknown[] = [];
+    seen.set(value, out);
+    // Loops rather than callbacks, which would cost an allocation for every
+    // value traversed. Holes are skipped like forEach does.
+    for (let index = 0; index < value.length; index++) {
+      if (!(index in value)) continue;
+      path.push(index);
+      out.push(traverse(value[index], replacer, seen, path, hooks));
+      path.pop();
+    }
+    return out;
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  const plain = isPlainObject(value);
+  if (!plain && proto !== Map.prototype && proto !== Set.prototype) {
+    if (hooks.visit) {
+      // A visitor reaching the same object again gets it back unchanged
+      seen.set(value, value);
+      const out = hooks.visit(value, path);
+      if (out !== undefined) {
+        seen.set(value, out);
+        return out;
+      }
+      seen.delete(value);
+    }
+    if (isOpaque(value)) return value;
+  }
+
+  // Subclasses of Map and Set and class instances are copied only when their
+  // content changes, as the copy loses private fields and constructor state
+  let changed = false;
+
+  if (!plain && value instanceof Map) {
+    const out = new Map();
+    if (proto !== Map.prototype) Object.setPrototypeOf(out, proto);
+    seen.set(value, out);
+    let index = 0;
+    for (const [key, item] of [...value]) {
+      // Keys that cannot appear in a path are identified by position
+      path.push(
+        typeof key === "string" || typeof key === "number" ? key : index,
+      );
+      const copy = traverse(item, replacer, seen, path, hooks);
+      path.pop();
+      changed ||= copy !== item;
+      out.set(key, copy);
+      index++;
+    }
+    return keepUnchanged(value, out, changed || proto === Map.prototype, seen);
+  }
+
+  if (!plain && value instanceof Set) {
+    const out = new Set();
+    if (proto !== Set.prototype) Object.setPrototypeOf(out, proto);
+    seen.set(value, out);
+    let index = 0;
+    for (const item of [...value]) {
+      path.push(index++);
+      const copy = traverse(item, replacer, seen, path, hooks);
+      path.pop();
+      changed ||= copy !== item;
+      out.add(copy);
+    }
+    return keepUnchanged(value, out, changed || proto === Set.prototype, seen);
+  }
+
+  // Plain objects and class instances: copy own properties, keep prototype
+  const { keys } = hooks;
+  const source = value as Record<PropertyKey, unknown>;
+  const out: Record<PropertyKey, unknown> =
+    proto === Object.prototype ? {} : Object.create(proto);
+  seen.set(source, out);
+  // Original key of every property of `out`, by name
+  const sources = keys && new Map<string, string>();
+  const names = Object.keys(source);
+  for (const k of names) {
+    path.push(k);
+    const name = keys ? keys.rename(k, path) : k;
+    const item = traverse(source[k], replacer, seen, path, hooks);
+    path.pop();
+    changed ||= item !== source[k] || name !== k;
+    const previous = sources?.get(name);
+    if (!keys || previous === undefined) {
+      sources?.set(name, k);
+      setProperty(out, name, item);
+    } else if (keys.onCollision === "error") {
+      throw new KeyCollisionError(name, [previous, k], formatPath(path));
+    } else if (keys.onCollision === "merge") {
+      setProperty(out, name, mergeValues(out[name], item));
+    }
+  }
+
+  // Symbol keys and non-enumerable properties keep their descriptors. Listed
+  // apart, as most objects have neither and Reflect.ownKeys is slower
+  const ownNames = Object.getOwnPropertyNames(source);
+  const symbols = Object.getOwnPropertySymbols(source);
+  if (ownNames.length !== names.length || symbols.length > 0) {
+    for (const k of [...ownNames, ...symbols]) {
+      const descriptor = Object.getOwnPropertyDescriptor(source, k);
+      if (!descriptor || (typeof k === "string" && descriptor.enumerable)) {
+        continue;
+      }
+      if ("value" in descriptor) {
+        path.push(String(k));
+        const item = traverse(descriptor.value, replacer, seen, path, hooks);
+        path.pop();
+        changed ||= item !== descriptor.value;
+        descriptor.value = item;
+      }
+      Object.defineProperty(out, k, descriptor);
+    }
+  }
+  return keepUnchanged(value, out, changed || plain, seen);
+}
+
+/**
+ * Returns the copy of `source` made by {@link traverse}, or `source` itself
+ * when nothing in it `changed`.
+ */
+function keepUnchanged(
+  source: object,
+  copy: object,
+  changed: boolean,
+  seen: WeakMap<object, unknown>,
+): object {
+  if (changed) return copy;
+  seen.set(source, source);
+  return source;
+}
+
+/**
+ * Sets a property, defining it when its name would otherwise change the
+ * prototype of `target`.
+ */
+function setProperty(
+  target: Record<PropertyKey, unknown>,
+  name: string,
+  value: unknown,
+): void {
+  if (name === "__proto__") {
+    Object.defineProperty(target, name, {
+      value,
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  } else {
+    target[name] = value;
+  }
+}
+
+/**
+ * Deep merges `next` into a copy of `previous`: plain objects are merged key
+ * by key and any other value replaces the previous one.
+ */
+function mergeValues(
+  previous: unknown,
+  next: unknown,
+  merging = new Set<object>(),
+): unknown {
+  // Cyclic values are not merged again
+  if (
+    !isPlainObject(previous) ||
+    !isPlainObject(next) ||
+    merging.has(previous)
+  ) {
+    return next;
+  }
+
+  merging.add(previous);
+  const out: Record<PropertyKey, unknown> = { ...previous };
+  for (const k of Object.keys(next)) {
+    setProperty(
+      out,
+      k,
+      Object.hasOwn(out, k) ? mergeValues(out[k], next[k], merging) : next[k],
+    );
+  }
+  merging.delete(previous);
+  return out;
+}
+
+/**
+ * Recursively interpolates string values within a nested input structure using a provided
+ * variables map. Supports strings, arrays, and plain objects.
+ *
+ * Variables are specified using ${VARIABLE_NAME:default_value} syntax. If a variable
+ * is not found in the variables map, the default value is used. If no default is
+ * provided, the placeholder is left unchanged. The interpolation process supports
+ * nested structures and recursive placeholder resolution, allowing defaults to
+ * contain their own placeholders.
+ *
+ * @param content The input to process. May be a string, array, or object graph.
+ * @param variables A map of variable names to their string values, or an ordered list of sources (first match wins). Defaults to `process.env`.
+ * @param options Configuration options for interpolation behavior.
+ * @returns A new structure of the same shape as the input with all strings processed.
+ * @throws {UnresolvedPlaceholderError} In strict mode, when any placeholder cannot be resolved.
+ * @throws {RequiredVariableError} In POSIX mode, when a `${VAR:?message}` requirement fails.
+ * @throws {CoercionError} In coercion mode, when a value does not match its type hint.
+ * @throws {CycleError} When variables reference each other in a loop.
+ *
+ * @example
+ * // Simple string interpolation
+ * interpolate('Hello ${NAME:Guest}!', { NAME: 'Alice' });
+ * // Returns: 'Hello Alice!'
+ *
+ * @example
+ * // Object interpolation
+ * interpolate({ greeting: 'Hello ${NAME:Guest}!' }, { NAME: 'Bob' });
+ * // Returns: { greeting: 'Hello Bob!' }
+ *
+ * @example
+ * // Array interpolation with defaults
+ * interpolate(['${GREETING:Hello}', '${NAME:World}'], { NAME: 'TypeScript' });
+ * // Returns: ['Hello', 'TypeScript']
+ *
+ * @example
+ * // Nested placeholder resolution
+ * interpolate('${MESSAGE:Hello ${USER:Guest}}', { USER: 'Alice' });
+ * // Returns: 'Hello Alice'
+ *
+ * @example
+ * // Complex object with multiple placeholders
+ * interpolate({
+ *   title: '${TITLE:Welcome}',
+ *   message: 'Hello ${NAME:Guest}, you have ${COUNT:0} messages',
+ *   meta: { env: '${NODE_ENV:development}' }
+ * }, { NAME: 'John', COUNT: '5' });
+ * // Returns: { title: 'Welcome', message: 'Hello John, you have 5 messages', meta: { env: 'development' } }
+ *
+ * @example
+ * // Using process.env (default variables source)
+ * process.env.API_URL = 'https://api.example.com';
+ * interpolate('Connecting to ${API_URL:localhost}');
+ * // Returns: 'Connecting to https://api.example.com'
+ *
+ * @example
+ * // Layered sources: CLI overrides, then .env values, then process.env
+ * interpolate('${HOST}:${PORT}', [{ PORT: '8081' }, dotenv, process.env]);
+ */
+export function interpolate<T extends Input>(
+  content: T,
+  variables: Variables = defaults,
+  options?: InterpolateOptions,
+): T {
+  return interpolateWith(content, variables, options);
+}
+
+/**
+ * Shared implementation of {@link interpolate}, also used by the asynchronous
+ * entry point once every variable has been fetched and by the secret-aware and
+ * reporting entry points.
+ */
+function interpolateWith<T extends Input>(
+  content: T,
+  variables: Variables,
+  options?: InterpolateOptions,
+  hooks: EngineHooks = {},
+): T {
+  const { secrets, report, templates, tracked, reuse } = hooks;
+  // Normalize once rather than for every string in the structure
+  const variableLookup = toLookup(variables);
+  const resolved = resolveOptions(options ?? {});
+  // Configurations repeat texts, such as variable values, from string to string
+  const parsed = new Map<string, Segment[] | undefined>();
+  const unresolved: UnresolvedPlaceholder[] = [];
+  const seen = new WeakMap();
+  // Results of the strings interpolated so far, by path (references only)
+  const done = new Map<string, unknown>();
+  // Paths of the strings being interpolated, to detect circular references
+  const active: string[] = [];
+
+  const { keys, visit } = options ?? {};
+  // Hooks of a traversal copying strings with `copy` and keys with `rename`
+  const hooksFor = (
+    copy: (str: string, path: ReadonlyArray<PathSegment>) => unknown,
+    rename: KeyHandling["rename"],
+    shared: WeakMap<object, unknown>,
+  ): TraverseHooks => {
+    const hooks: TraverseHooks = {
+      keys: keys
+        ? { rename, onCollision: keys === true ? "error" : keys }
+        : undefined,
+      visit:
+        visit &&
+        ((value, path) => {
+          // The traversal moves on from `path` once the visitor returns
+          const at = [...path];
+          return visit(
+            value,
+            (child, key) =>
+              traverse(
+                child,
+                copy,
+                shared,
+                key === undefined ? [...at] : [...at, key],
+                hooks,
+              ),
+            formatPath(at),
+          );
+        }),
+    };
+    return hooks;
+  };
+  // Property names are interpolated like values, as strings
+  const traverseHooks = hooksFor(
+    (str, path) => replacer(str, path),
+    (key, path) => {
+      const name = interpolateString(key, path, true);
+      return typeof name === "string" ? name : stringifyValue(name);
+    },
+    seen,
+  );
+
+  // Redacted twins of the strings and keys that differ from the input, by
+  // path; the redacted copy is rebuilt from them without resolving again
+  const twins = secrets && new Map<string, unknown>();
+  const keyTwins = secrets && new Map<string, string>();
+  const twinSeen = new WeakMap();
+  // A lone reference reads as the twin of the referenced value
+  const referenceTwin = (str: string): unknown => {
+    const target = options?.references
+      ? loneReferenceOf(str, options, resolved)
+      : undefined;
+    const value = target && twinAt(target);
+    return value === undefined ? str : value;
+  };
+  const twinOf = (str: string, path: ReadonlyArray<PathSegment>): unknown => {
+    const location = formatPath(path);
+    return twins?.has(location) ? twins.get(location) : referenceTwin(str);
+  };
+  const twinHooks = hooksFor(
+    twinOf,
+    (key, path) =>
+      keyTwins?.get(formatPath(path)) ?? stringifyValue(referenceTwin(key)),
+    twinSeen,
+  );
+  const twinAt = (path: PathSegment[]) =>
+    traverse(valueAt(content, path), twinOf, twinSeen, path, twinHooks);
+  const redactReference =
+    secrets &&
+    ((key: string): string | undefined => {
+      const target = referencePath(key) as PathSegment[];
+      const real = stringifyValue(resolveReference(target));
+      const twin = stringifyValue(twinAt(target));
+      return twin === real ? undefined : twin;
+    });
+
+  // Interpolates the value at `path`, sharing results with the traversal
+  const resolveReference = (path: PathSegment[]) =>
+    traverse(valueAt(content, path), replacer, seen, path, traverseHooks);
+
+  const lookup: VariableLookup = (key) => {
+    const path = options?.references ? referencePath(key) : undefined;
+    if (!path) return variableLookup(key);
+    const value = resolveReference(path);
+    return value === undefined ? undefined : stringifyValue(value);
+  };
+
+  // Looks variables up, adding their names to `variables`. Created apart from
+  // interpolateString, whose every call would otherwise allocate its scope.
+  const recording =
+    (variables: Set<string>): VariableLookup =>
+    (key) => {
+      variables.add(key);
+      return lookup(key);
+    };
+  // Hooks of the strings that need none of their own
+  const sharedHooks: StringHooks = {
+    secrets,
+    redactReference,
+    templates,
+    parsed,
+  };
+
+  const interpolateString = (
+    str: string,
+    path: ReadonlyArray<PathSegment>,
+    isKey = false,
+  ): unknown => {
+    // Strings without opening token need no setup, unless they are tracked
+    if (!tracked && !str.includes(resolved.syntax.open)) return str;
+    const kept = isKey ? undefined : reuse?.get(formatPath(path));
+    if (kept) {
+      tracked?.set(formatPath(path), kept);
+      return kept.value;
+    }
+    // Variables looked up while resolving, including nested ones
+    const variables = tracked && new Set<string>();
+    let result: Resolved;
+    try {
+      const target = options?.references
+        ? loneReferenceOf(str, options, resolved)
+        : undefined;
+      // A lone reference is replaced by the referenced value itself
+      const value = target && resolveReference(target);
+      if (value !== undefined) {
+        if (report && target && !isKey) {
+          report[formatPath(path)] = {
+            placeholders: [
+              {
+                key: `@${formatPath(target)}`,
+                placeholder: str,
+                source: "reference",
+                depth: 0,
+                value: stringifyValue(value),
+              },
+            ],
+            passes: 1,
+            truncated: false,
+          };
+        }
+        return value;
+      }
+
+      const injected = secrets ? new Set<string>() : undefined;
+      // Reports describe values; keys share their paths
+      const stringReport: PathReport | undefined =
+        report && !isKey
+          ? { placeholders: [], passes: 0, truncated: false }
+          : undefined;
+      result = resolveString(
+        str,
+        variables ? recording(variables) : lookup,
+        options ?? {},
+        injected || stringReport
+          ? { ...sharedHooks, injected, report: stringReport }
+          : sharedHooks,
+        resolved,
+      );
+      if (secrets && injected) {
+        for (const key of injected) {
+          secrets.audit.push({ key, path: formatPath(path) });
+        }
+      }
+      if (
+        report &&
+        stringReport &&
+        (stringReport.placeholders.length > 0 || stringReport.truncated)
+      ) {
+        report[formatPath(path)] = stringReport;
+      }
+    } catch (error) {
+      // Attach the location of the offending string
+      if (error instanceof PlaceholderError && !error.path) {
+        throw error.withPath(formatPath(path));
+      }
+      throw error;
+    }
+    if (options?.strict) {
+      for (const match of result.unresolved) {
+        unresolved.push({ ...match, path: formatPath(path) });
+      }
+    }
+    // A lone placeholder with filters is replaced by their result
+    const value = result.value !== undefined ? result.value : result.text;
+    const twin = result.redacted ?? value;
+    if (twin !== str) {
+      if (isKey) {
+        keyTwins?.set(formatPath(path), stringifyValue(twin));
+      } else {
+        twins?.set(formatPath(path), twin);
+      }
+    }
+    if (!isKey && variables) {
+      tracked?.set(formatPath(path), { value, variables });
+    }
+    return value;
+  };
+
+  const replacer = (str: string, path: ReadonlyArray<PathSegment>): unknown => {
+    if (!options?.references) return interpolateString(str, path);
+    const location = formatPath(path);
+    if (done.has(location)) return done.get(location);
+    const index = active.indexOf(location);
+    if (index !== -1) {
+      const chain = [...active.slice(index), location];
+      throw new CycleError(
+        chain.map((p) => `@${p}`),
+        location,
+      );
+    }
+    active.push(location);
+    try {
+      const result = interpolateString(str, path);
+      done.set(location, result);
+      return result;
+    } finally {
+      active.pop();
+    }
+  };
+
+  const result = traverse(content, replacer, seen, [], traverseHooks) as T;
+  if (unresolved.length > 0) throw new UnresolvedPlaceholderError(unresolved);
+  if (secrets) {
+    secrets.redacted = traverse(content, twinOf, twinSeen, [], twinHooks);
+  }
+  return result;
+}
+
+/**
+ * Calls a provider, rejecting with {@link ProviderTimeoutError} when it does not
+ * settle within `timeout` milliseconds.
+ */
+async function callProvider(
+  provider: VariableProvider,
+  name: string,
+  keys: string[],
+  timeout: number | undefined,
+): Promise<ProviderResult> {
+  const pending = Promise.resolve().then(() => provider.resolve(keys));
+  if (timeout === undefined) return pending;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new ProviderTimeoutError(name, timeout)),
+      timeout,
+    );
+  });
+  try {
+    return await Promise.race([pending, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Asynchronously interpolates a nested input structure using one or more
+ * variable providers (HTTP secret stores, parameter stores, credential files…).
+ *
+ * The input is scanned to collect every variable it references, including the
+ * ones that only appear once nested defaults or resolved values are expanded.
+ * Lookups are de-duplicated and sent to the providers in batches: each provider
+ * receives the keys still unresolved by the providers before it, so the first
+ * provider that defines a key wins. Scanning repeats until no new keys are
+ * discovered, then the input is interpolated exactly like {@link interpolate}.
+ *
+ * @param content The input to process. May be a string, array, or object graph.
+ * @param providers A provider, a provider function, or an ordered list of them.
+ * @param options Interpolation options plus a default provider `timeout`.
+ * @returns A promise for a new structure of the same shape as the input.
+ * @throws {ProviderTimeoutError} When a provider exceeds its timeout.
+ * @throws {UnresolvedPlaceholderError} In strict mode, when any placeholder cannot be resolved.
+ * @throws {CycleError} When variables reference each other in a loop.
+ *
+ * @example
+ * const secrets = {
+ *   name: 'vault',
+ *   timeout: 2000,
+ *   resolve: (keys) => vault.readMany(keys),
+ * };
+ * const config = await interpolateAsync(
+ *   { db: { password: '${DB_PASSWORD}', host: '${DB_HOST:localhost}' } },
+ *   [secrets, (keys) => readCredentialsFile(keys)],
+ * );
+ */
+export async function interpolateAsync<T extends Input>(
+  content: T,
+  providers:
+    | VariableProvider
+    | ProviderFunction
+    | Array<VariableProvider | ProviderFunction>,
+  options?: InterpolateAsyncOptions,
+): Promise<T> {
+  const chain = (Array.isArray(providers) ? providers : [providers]).map(
+    (provider) =>
+      typeof provider === "function" ? { resolve: provider } : provider,
+  );
+  const values = new Map<string, string | undefined>();
+  const scanOptions = { ...options, strict: false };
+  const resolved = resolveOptions(scanOptions);
+  const visit = options?.visit;
+
+  while (true) {
+    // Dry run: record every key that has not been asked to the providers yet
+    const requested = new Set<string>();
+    const lookup = (key: string) => {
+      // References are resolved against the input, not by the providers
+      if (options?.references && key.startsWith("@")) return undefined;
+      if (values.has(key)) return values.get(key);
+      requested.add(key);
+      return undefined;
+    };
+    const scan = (str: string) => {
+      try {
+        return resolveString(str, lookup, scanOptions, {}, resolved).text;
+      } catch (error) {
+        // Values may not have been fetched yet; the final interpolation
+        // reports the placeholders that really fail
+        if (error instanceof PlaceholderError) return str;
+        throw error;
+      }
+    };
+    const seen = new WeakMap();
+    const scanHooks: TraverseHooks = {
+      keys: options?.keys ? { rename: scan, onCollision: "first" } : undefined,
+      // Visitors can rewrite or add strings, which need their values too
+      visit:
+        visit &&
+        ((value, path) => {
+          // The traversal moves on from `path` once the visitor returns
+          const at = [...path];
+          return visit(
+            value,
+            (child, key) =>
+              traverse(
+                child,
+                scan,
+                seen,
+                key === undefined ? [...at] : [...at, key],
+                scanHooks,
+              ),
+            formatPath(at),
+          );
+        }),
+    };
+    traverse(content, scan, seen, [], scanHooks);
+    if (requested.size === 0) break;
+
+    let missing = [...requested];
+    for (const key of missing) values.set(key, undefined);
+    for (const [index, provider] of chain.entries()) {
+      if (missing.length === 0) break;
+      const name = provider.name ?? `provider #${index}`;
+      const result = await callProvider(
+        provider,
+        name,
+        missing,
+        provider.timeout ?? options?.timeout,
+      );
+      const get =
+        result instanceof Map
+          ? (key: string) => result.get(key)
+          : (key: string) =>
+              Object.hasOwn(result, key) ? result[key] : undefined;
+      missing = missing.filter((key) => {
+        const value = get(key);
+        if (value === undefined) return true;
+        values.set(key, value);
+        return false;
+      });
+    }
+  }
+
+  return interpolateWith(content, (key) => values.get(key), options);
+}
+
+// Shared with the other modules of the package
+/** @internal */
+export {
+  defaults,
+  findNextPlaceholder,
+  formatPath,
+  interpolateWith,
+  isPlainObject,
+  isValidVarName,
+  parsePlaceholder,
+  parseText,
+  referencePath,
+  replace,
+  nameValidator,
+  resolveOptions,
+  resolveString,
+  resolveSyntax,
+  setProperty,
+  toLookup,
+  traverse,
+  unquote,
+  valueAt,
+  type PathSegment,
+  type Segment,
+  type SecretHandling,
+  type TrackedString,
+};
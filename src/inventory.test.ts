@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+
+import { generateEnvExample, listPlaceholders, parseEnv } from "./index.js";
+
+describe("listPlaceholders", () => {
+  it("lists variables with their defaults and paths", () => {
+    const result = listPlaceholders({
+      db: { host: "${DB_HOST}", port: "${DB_PORT:5432}" },
+      replicas: ["${DB_HOST}", "${DB_HOST}:${DB_PORT:'6543'}"],
+    });
+    expect(result).toEqual([
+      {
+        key: "DB_HOST",
+        defaults: [],
+        required: true,
+        paths: ["db.host", "replicas[0]", "replicas[1]"],
+      },
+      {
+        key: "DB_PORT",
+        defaults: ["5432", "6543"],
+        required: false,
+        paths: ["db.port", "replicas[1]"],
+      },
+    ]);
+  });
+
+  it("includes variables nested in defaults", () => {
+    expect(listPlaceholders("${A:${B:${C:fallback}}}")).toEqual([
+      {
+        key: "A",
+        defaults: ["${B:${C:fallback}}"],
+        required: false,
+        paths: [""],
+      },
+      { key: "B", defaults: ["${C:fallback}"], required: false, paths: [""] },
+      { key: "C", defaults: ["fallback"], required: false, paths: [""] },
+    ]);
+  });
+
+  it("treats empty defaults as required", () => {
+    expect(listPlaceholders("${A:}")).toMatchObject([
+      { key: "A", defaults: [], required: true },
+    ]);
+  });
+
+  it("skips escaped placeholders and invalid names", () => {
+    expect(listPlaceholders("\\${A} \\\\${B} ${not-valid} ${}")).toEqual([
+      { key: "B", defaults: [], required: true, paths: [""] },
+    ]);
+    expect(listPlaceholders("\\${A}", { escape: false })).toMatchObject([
+      { key: "A" },
+    ]);
+  });
+
+  it("understands POSIX operators and type hints", () => {
+    const result = listPlaceholders(
+      ["${A:-a}", "${B-b}", "${C:?need ${D}}", "${E:+alt}", "${F|number}"],
+      { posix: true, coerce: true },
+    );
+    expect(
+      result.map(({ key, defaults, required }) => [key, defaults, required]),
+    ).toEqual([
+      ["A", ["a"], false],
+      ["B", ["b"], false],
+      ["C", [], true],
+      ["D", [], true],
+      ["E", [], true],
+      ["F", [], true],
+    ]);
+  });
+
+  it("follows the configured placeholder syntax", () => {
+    expect(
+      listPlaceholders("{{A:{{B}}}} ${C}", { syntax: "mustache" }),
+    ).toEqual([
+      { key: "A", defaults: ["{{B}}"], required: false, paths: [""] },
+      { key: "B", defaults: [], required: true, paths: [""] },
+    ]);
+  });
+
+  it("follows the configured name grammar", () => {
+    expect(
+      listPlaceholders("${app.port:80} ${A}", { names: "dotted" }).map(
+        (info) => info.key,
+      ),
+    ).toEqual(["app.port", "A"]);
+  });
+
+  it("lists variables used in keys when keys are interpolated", () => {
+    const config = { regions: { "${REGION:eu}": "${URL}" } };
+    expect(listPlaceholders(config).map((info) => info.key)).toEqual(["URL"]);
+    expect(listPlaceholders(config, { keys: true })).toEqual([
+      {
+        key: "REGION",
+        defaults: ["eu"],
+        required: false,
+        paths: ['regions["${REGION:eu}"]'],
+      },
+      {
+        key: "URL",
+        defaults: [],
+        required: true,
+        paths: ['regions["${REGION:eu}"]'],
+      },
+    ]);
+  });
+
+  it("handles cyclic structures", () => {
+    const obj: Record<string, unknown> = { a: "${A}" };
+    obj.self = obj;
+    expect(listPlaceholders(obj)).toEqual([
+      { key: "A", defaults: [], required: true, paths: ["a"] },
+    ]);
+  });
+});
+
+describe("generateEnvExample", () => {
+  it("documents required and optional variables", () => {
+    const result = generateEnvExample({
+      db: { host: "${DB_HOST}", port: "${DB_PORT:5432}" },
+      title: "${TITLE:'My app'}",
+    });
+    expect(result).toBe(
+      [
+        "# Generated by env-interpolation. Do not edit by hand.",
+        "",
+        "# Used in: db.host",
+        "DB_HOST=",
+        "",
+        "# Used in: db.port",
+        "# DB_PORT=5432",
+        "",
+        "# Used in: title",
+        '# TITLE="My app"',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("lists additional defaults and supports custom headers", () => {
+    const result = generateEnvExample(["${A:1}", "${A:2}", "${B}", "${B:x}"], {
+      header: "Example settings\nCopy to .env",
+    });
+    expect(result).toBe(
+      [
+        "# Example settings",
+        "# Copy to .env",
+        "",
+        "# Used in: [0], [1]",
+        "# Default: 2",
+        "# A=1",
+        "",
+        "# Used in: [2], [3]",
+        "# Default: x",
+        "B=",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("omits the header when empty and labels the root path", () => {
+    expect(generateEnvExample("${A}", { header: "" })).toBe(
+      "# Used in: <root>\nA=\n",
+    );
+  });
+
+  it("produces a file parseEnv reads back", () => {
+    const example = generateEnvExample({
+      a: "${A:'multi\nline \"quoted\"'}",
+      b: "${B}",
+    });
+    const uncommented = example.replace(/^# (A=)/m, "$1");
+    expect(parseEnv(uncommented, { variables: {} })).toEqual({
+      A: 'multi\nline "quoted"',
+      B: "",
+    });
+  });
+});
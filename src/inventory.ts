@@ -0,0 +1,238 @@
+import {
+  findNextPlaceholder,
+  formatPath,
+  nameValidator,
+  parsePlaceholder,
+  resolveSyntax,
+  traverse,
+  unquote,
+  type Input,
+  type InterpolateOptions,
+  type PathSegment,
+} from "./interpolate.js";
+
+/**
+ * A variable referenced by the placeholders of a structure, as returned by
+ * {@link listPlaceholders}.
+ */
+export interface PlaceholderInfo {
+  /** Variable name. */
+  key: string;
+  /**
+   * Distinct default values given to the variable, in order of appearance and
+   * with wrapping quotes removed. Defaults can contain nested placeholders.
+   */
+  defaults: string[];
+  /** Whether at least one placeholder uses the variable without a default. */
+  required: boolean;
+  /** Distinct paths of the strings using the variable, in traversal order. */
+  paths: string[];
+}
+
+/**
+ * Options for {@link listPlaceholders} and {@link generateEnvExample}. Only the
+ * syntax-related interpolation options are relevant.
+ */
+export type ListPlaceholdersOptions = Pick<
+  InterpolateOptions,
+  | "escape"
+  | "posix"
+  | "coerce"
+  | "filters"
+  | "encode"
+  | "syntax"
+  | "names"
+  | "keys"
+>;
+
+/**
+ * Options for {@link generateEnvExample}.
+ */
+export interface EnvExampleOptions extends ListPlaceholdersOptions {
+  /**
+   * Comment written at the top of the file. Every line is prefixed with `# `.
+   * Defaults to a note saying the file is generated.
+   */
+  header?: string;
+}
+
+// Operators whose word is used as the value when the variable is missing
+const DEFAULT_OPERATORS = new Set([":", ":-", "-"]);
+// Values that can be written to a .env file without quotes
+const PLAIN_ENV_VALUE_RE = /^[^\s#"'`\\]*$/;
+
+/**
+ * Calls `visit` for every placeholder of `str`, including the ones nested in
+ * defaults, without resolving anything. Escaped placeholders and invalid names
+ * are skipped like {@link replace} does.
+ */
+function scanPlaceholders(
+  str: string,
+  options: ListPlaceholdersOptions,
+  visit: (key: string, defaultValue: string | undefined) => void,
+): void {
+  const { escape = true } = options;
+  const syntax = resolveSyntax(options.syntax);
+  const isName = nameValidator(options.names);
+  let searchFrom = 0;
+  const unclosed = new Set<number>();
+  while (true) {
+    const match = findNextPlaceholder(
+      str,
+      searchFrom,
+      syntax,
+      isName,
+      unclosed,
+    );
+    if (!match) return;
+    searchFrom = match.end + 1;
+
+    let backslashes = 0;
+    while (str[match.start - backslashes - 1] === "\\") backslashes++;
+    if (escape && backslashes % 2 === 1) continue;
+
+    const { key, filters, operator, defaultValue } = parsePlaceholder(
+      match.inner,
+      options,
+      syntax,
+      isName,
+    );
+    if (!isName(key)) continue;
+
+    const hasDefault =
+      operator !== undefined &&
+      DEFAULT_OPERATORS.has(operator) &&
+      // Empty defaults (e.g. ${NAME:}) do not provide a value
+      !(operator === ":" && defaultValue === "");
+    visit(key, hasDefault ? unquote(defaultValue ?? "") : undefined);
+    // Words after any operator and filter arguments may hold nested placeholders
+    if (defaultValue) scanPlaceholders(defaultValue, options, visit);
+    for (const { args } of filters ?? []) {
+      for (const arg of args) scanPlaceholders(arg, options, visit);
+    }
+  }
+}
+
+/**
+ * Lists every variable referenced by the placeholders of a structure, walking
+ * it the same way {@link interpolate} does. Nothing is resolved: the result
+ * describes what the input needs, including variables that only appear inside
+ * defaults (`${A:${B:fallback}}` references both `A` and `B`).
+ *
+ * @param content The input to inspect. May be a string, array, or object graph.
+ * @param options Syntax options matching the ones used to interpolate.
+ * @returns One entry per variable, in order of first appearance.
+ *
+ * @example
+ * listPlaceholders({
+ *   db: { host: '${DB_HOST}', port: '${DB_PORT:5432}' },
+ *   replicas: ['${DB_HOST}'],
+ * });
+ * // Returns: [
+ * //   { key: 'DB_HOST', defaults: [], required: true, paths: ['db.host', 'replicas[0]'] },
+ * //   { key: 'DB_PORT', defaults: ['5432'], required: false, paths: ['db.port'] },
+ * // ]
+ */
+export function listPlaceholders(
+  content: Input,
+  options: ListPlaceholdersOptions = {},
+): PlaceholderInfo[] {
+  const found = new Map<string, PlaceholderInfo>();
+
+  const collect = (str: string, path: ReadonlyArray<PathSegment>) => {
+    const location = formatPath(path);
+    scanPlaceholders(str, options, (key, defaultValue) => {
+      let info = found.get(key);
+      if (!info) {
+        info = { key, defaults: [], required: false, paths: [] };
+        found.set(key, info);
+      }
+      if (defaultValue === undefined) info.required = true;
+      else if (!info.defaults.includes(defaultValue)) {
+        info.defaults.push(defaultValue);
+      }
+      if (!info.paths.includes(location)) info.paths.push(location);
+    });
+    return str;
+  };
+
+  // Keys are listed at the path of their property
+  traverse(
+    content,
+    collect,
+    undefined,
+    [],
+    options.keys ? { keys: { rename: collect, onCollision: "first" } } : {},
+  );
+
+  return [...found.values()];
+}
+
+/**
+ * Formats a value for a `.env` file, double-quoting it when needed.
+ */
+function formatEnvValue(value: string): string {
+  if (PLAIN_ENV_VALUE_RE.test(value)) return value;
+  const escaped = value
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t");
+  return `"${escaped}"`;
+}
+
+/**
+ * Generates a commented `.env.example` file documenting every variable used by
+ * a structure, so documentation never drifts from the configuration.
+ *
+ * Each variable is preceded by comments listing where it is used. Required
+ * variables are written as empty assignments (`KEY=`); variables with a default
+ * are commented out and show their default (`# KEY=default`). Additional
+ * defaults found for the same variable are listed in comments.
+ *
+ * @param content The input to document. May be a string, array, or object graph.
+ * @param options Syntax options and an optional header comment.
+ * @returns The content of the `.env.example` file.
+ *
+ * @example
+ * generateEnvExample({ db: { host: '${DB_HOST}', port: '${DB_PORT:5432}' } });
+ * // # Generated by env-interpolation. Do not edit by hand.
+ * //
+ * // # Used in: db.host
+ * // DB_HOST=
+ * //
+ * // # Used in: db.port
+ * // # DB_PORT=5432
+ */
+export function generateEnvExample(
+  content: Input,
+  options: EnvExampleOptions = {},
+): string {
+  const { header = "Generated by env-interpolation. Do not edit by hand." } =
+    options;
+  const blocks: string[] = [];
+  if (header) {
+    blocks.push(
+      header
+        .split("\n")
+        .map((line) => `# ${line}`.trimEnd())
+        .join("\n"),
+    );
+  }
+
+  for (const { key, defaults, required, paths } of listPlaceholders(
+    content,
+    options,
+  )) {
+    const lines = [`# Used in: ${paths.map((p) => p || "<root>").join(", ")}`];
+    for (const other of required ? defaults : defaults.slice(1)) {
+      lines.push(`# Default: ${formatEnvValue(other)}`);
+    }
+    lines.push(
+      required ? `${key}=` : `# ${key}=${formatEnvValue(defaults[0])}`,
+    );
+    blocks.push(lines.join("\n"));
+  }
+
+  return blocks.join("\n\n") + "\n";
+}
@@ -0,0 +1,259 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { UnresolvedPlaceholderError } from "./errors.js";
+import { findFormat } from "./formats.js";
+import { registerFormat } from "./index.js";
+import {
+  createInterpolationTransform,
+  interpolateFile,
+  loadEnvFiles,
+} from "./node.js";
+
+describe("loadEnvFiles", () => {
+  let dir: string;
+  const file = (name: string, content: string) => {
+    const path = join(dir, name);
+    writeFileSync(path, content);
+    return path;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "env-interpolation-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads a single file", () => {
+    const path = file(".env", "A=1\nB=${A}2");
+    expect(loadEnvFiles([path], { variables: {} })).toEqual({
+      A: "1",
+      B: "12",
+    });
+  });
+
+  it("gives priority to the files listed first", () => {
+    const local = file(".env.local", "PORT=8081");
+    const base = file(".env", "PORT=3000\nHOST=localhost");
+    expect(loadEnvFiles([local, base], { variables: {} })).toEqual({
+      PORT: "8081",
+      HOST: "localhost",
+    });
+  });
+
+  it("expands later files with values from higher priority files", () => {
+    const local = file(".env.local", "DB_HOST=127.0.0.1");
+    const base = file(".env", "DB_HOST=db\nDB_URL=postgres://${DB_HOST}/app");
+    expect(loadEnvFiles([local, base], { variables: {} })).toEqual({
+      DB_HOST: "127.0.0.1",
+      DB_URL: "postgres://127.0.0.1/app",
+    });
+  });
+
+  it("lets the provided variables override file values during expansion", () => {
+    const base = file(".env", "HOST=file\nURL=${HOST}");
+    expect(loadEnvFiles([base], { variables: { HOST: "env" } })).toEqual({
+      HOST: "file",
+      URL: "env",
+    });
+  });
+
+  it("throws for missing files unless ignoreMissing is set", () => {
+    const base = file(".env", "A=1");
+    const missing = join(dir, ".env.local");
+    expect(() => loadEnvFiles([missing, base])).toThrow(/ENOENT/);
+    expect(
+      loadEnvFiles([missing, base], { ignoreMissing: true, variables: {} }),
+    ).toEqual({ A: "1" });
+  });
+
+  it("does not modify process.env", () => {
+    const base = file(".env", "LOAD_ENV_FILES_TEST=1");
+    loadEnvFiles([base]);
+    expect(process.env.LOAD_ENV_FILES_TEST).toBeUndefined();
+  });
+});
+
+describe("createInterpolationTransform", () => {
+  const collect = async (chunks: Buffer[], options = {}) => {
+    let out = "";
+    const transform = Readable.from(chunks).pipe(
+      createInterpolationTransform({ NAME: "Zoë", A: "a" }, options),
+    );
+    for await (const chunk of transform) out += String(chunk);
+    return out;
+  };
+
+  it("interpolates buffers split inside placeholders and characters", async () => {
+    const bytes = Buffer.from("Hi ${NAME} \\\\${MISSING:é${A}}");
+    const chunks = [...bytes].map((byte) => Buffer.from([byte]));
+    await expect(collect(chunks)).resolves.toBe("Hi Zoë \\éa");
+  });
+
+  it("emits resolution errors", async () => {
+    await expect(
+      collect([Buffer.from("${MISSING}")], { strict: true }),
+    ).rejects.toThrow(UnresolvedPlaceholderError);
+  });
+});
+
+describe("interpolateFile", () => {
+  let dir: string;
+  const file = (name: string, content: string) => {
+    const path = join(dir, name);
+    writeFileSync(path, content);
+    return path;
+  };
+  const variables = { HOST: "db", PASSWORD: 'p"w\\1', PORT: "5432" };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "env-interpolation-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("escapes values in JSON and keeps the layout", () => {
+    const path = file(
+      "config.json",
+      '{\n  "db": { "host": "${HOST}",  "password": "${PASSWORD}" },\n' +
+        '  "tags": ["${HOST}", "x\\u0041"], "${HOST}": 1\n}\n',
+    );
+    const out = interpolateFile(path, variables);
+    expect(out).toBe(
+      '{\n  "db": { "host": "db",  "password": "p\\"w\\\\1" },\n' +
+        '  "tags": ["db", "x\\u0041"], "${HOST}": 1\n}\n',
+    );
+    expect(JSON.parse(out).db.password).toBe(variables.PASSWORD);
+  });
+
+  it("keeps JSONC comments and trailing commas", () => {
+    const path = file(
+      "settings.jsonc",
+      [
+        "{",
+        '  // "${HOST}" stays in comments',
+        '  "url": "postgres://${HOST}:${PORT}", /* inline, */',
+        '  "list": ["${PASSWORD}",],',
+        "}",
+      ].join("\n"),
+    );
+    expect(interpolateFile(path, variables)).toBe(
+      [
+        "{",
+        '  // "${HOST}" stays in comments',
+        '  "url": "postgres://db:5432", /* inline, */',
+        '  "list": ["p\\"w\\\\1",],',
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  it("writes coerced values as JSON values", () => {
+    const path = file(
+      "config.json",
+      '{"port": "${PORT|number}", "on": "${ON|bool}"}',
+    );
+    expect(
+      interpolateFile(path, { PORT: "5432", ON: "yes" }, { coerce: true }),
+    ).toBe('{"port": 5432, "on": true}');
+  });
+
+  it("interpolates INI values by section", () => {
+    const path = file(
+      "app.ini",
+      [
+        "; ${HOST} in a comment",
+        "name = ${HOST}",
+        "[db]",
+        "host=${HOST}  ; trailing ${PORT}",
+        'url = "${HOST};${PORT}" # quoted',
+        "tag=#${PORT}",
+        "password = '${PASSWORD}'",
+        'port = "${PORT}"',
+        "empty = ${EMPTY}",
+        "[other]",
+        "host = ${MISSING}",
+      ].join("\n"),
+    );
+    expect(interpolateFile(path, { ...variables, EMPTY: "" })).toBe(
+      [
+        "; ${HOST} in a comment",
+        "name = db",
+        "[db]",
+        "host=db  ; trailing ${PORT}",
+        'url = "db;5432" # quoted',
+        "tag=#5432",
+        "password = 'p\"w\\1'",
+        'port = "5432"',
+        'empty = ""',
+        "[other]",
+        "host = ${MISSING}",
+      ].join("\n"),
+    );
+  });
+
+  it("rejects INI sections named like top-level keys", () => {
+    const path = file("app.ini", "name=x\n[name]\nk=${A}");
+    expect(() => interpolateFile(path, { A: "a" })).toThrow(
+      new SyntaxError('INI section [name] has the name of the key "name"'),
+    );
+  });
+
+  it("quotes INI values that would not read back the same", () => {
+    const path = file("app.ini", "a = ${A}\nb = '${B}'");
+    expect(interpolateFile(path, { A: " x", B: "it's" })).toBe(
+      'a = " x"\nb = "it\'s"',
+    );
+    const comments = file("comments.ini", "a = ${A}\nb = ${B}");
+    const text = interpolateFile(comments, { A: "a ;b", B: "#c" });
+    expect(text).toBe('a = "a ;b"\nb = "#c"');
+    expect(findFormat("ini", ".ini").parse(text)).toEqual({
+      a: "a ;b",
+      b: "#c",
+    });
+  });
+
+  it("uses registered formats and the format option", () => {
+    registerFormat("test-lines", {
+      extensions: [".lines"],
+      parse: (text) => text.split("\n"),
+      stringify: (value) => (value as string[]).join("\n"),
+    });
+    const path = file("hosts.lines", "${HOST}\n${PORT}");
+    expect(interpolateFile(path, variables)).toBe("db\n5432");
+    const txt = file("hosts.txt", '["${HOST}"]');
+    expect(interpolateFile(txt, variables, { format: "json" })).toBe('["db"]');
+  });
+
+  it("rejects unknown formats", () => {
+    const path = file("config.txt", "${HOST}");
+    expect(() => interpolateFile(path, variables)).toThrow(
+      'No format registered for ".txt" files',
+    );
+    expect(() => interpolateFile(path, variables, { format: "nope" })).toThrow(
+      'Unknown format "nope"',
+    );
+    expect(() =>
+      registerFormat("test-bad", {
+        extensions: ["bad"],
+        parse: (text) => text,
+        stringify: String,
+      }),
+    ).toThrow(TypeError);
+  });
+
+  it("fails in strict mode like interpolate", () => {
+    const path = file("config.json", '{"a": "${MISSING}"}');
+    expect(() => interpolateFile(path, {}, { strict: true })).toThrow(
+      UnresolvedPlaceholderError,
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { Transform } from "node:stream";
+import { StringDecoder } from "node:string_decoder";
+
+import { parseEnv, type ParseEnvOptions } from "./dotenv.js";
+import { findFormat } from "./formats.js";
+import {
+  defaults,
+  interpolateWith,
+  toLookup,
+  type InterpolateOptions,
+  type Variables,
+} from "./interpolate.js";
+import { streamInterpolator, type StreamOptions } from "./stream.js";
+
+/**
+ * Options for {@link loadEnvFiles}.
+ */
+export interface LoadEnvFilesOptions extends ParseEnvOptions {
+  /**
+   * Skip files that do not exist instead of throwing. Useful for optional
+   * files such as `.env.local`. Defaults to false.
+   */
+  ignoreMissing?: boolean;
+}
+
+/**
+ * Options for {@link interpolateFile}. Property names are never interpolated,
+ * as adapters write values back at the path they were read from.
+ */
+export interface InterpolateFileOptions
+  extends Omit<InterpolateOptions, "keys"> {
+  /**
+   * Name of the format (`json`, `jsonc`, `ini` or one added with
+   * {@link registerFormat}). Defaults to the format registered for the file
+   * extension.
+   */
+  format?: string;
+}
+
+/**
+ * Reads and parses several `.env` files with {@link parseEnv}, merging them in
+ * priority order: the first file that defines a key wins, so list the most
+ * specific files first (e.g. `.env.local` before `.env`).
+ *
+ * Values are expanded with the same rules as {@link parseEnv}. While expanding a
+ * file, variables from `options.variables` (default `process.env`) take
+ * precedence, followed by the files listed before it, followed by the
+ * assignments made earlier in the same file. `process.env` is never modified.
+ *
+ * @param paths Files to load, highest priority first.
+ * @param options Parsing, expansion and interpolation options.
+ * @returns The merged variables of all files.
+ *
+ * @example
+ * const env = loadEnvFiles(['.env.local', '.env'], { ignoreMissing: true });
+ * const config = interpolate(rawConfig, [process.env, env]);
+ */
+export function loadEnvFiles(
+  paths: string[],
+  options: LoadEnvFilesOptions = {},
+): Record<string, string> {
+  const { ignoreMissing = false, variables = defaults, ...rest } = options;
+  const loaded: Record<string, string> = {};
+
+  for (const path of paths) {
+    let text: string;
+    try {
+      text = readFileSync(path, "utf8");
+    } catch (error) {
+      if (ignoreMissing && (error as NodeJS.ErrnoException).code === "ENOENT") {
+        continue;
+      }
+      throw error;
+    }
+
+    const parsed = parseEnv(text, {
+      ...rest,
+      variables: [toLookup(variables), loaded],
+    });
+    for (const [key, value] of Object.entries(parsed)) {
+      if (!Object.hasOwn(loaded, key)) loaded[key] = value;
+    }
+  }
+
+  return loaded;
+}
+
+/**
+ * Creates a Node.js `Transform` stream interpolating text chunk by chunk, the
+ * counterpart of {@link createInterpolationStream} for Node.js streams. Written
+ * buffers are decoded as UTF-8, characters split across chunks included, and
+ * the output is UTF-8 too.
+ *
+ * @param variables A variable source or ordered list of sources. Defaults to `process.env`.
+ * @param options Interpolation options and the placeholder length limit.
+ * @returns The transform stream.
+ * @throws {TypeError} When the `syntax` or `names` option is invalid.
+ *
+ * @example
+ * await pipeline(
+ *   createReadStream('seed.sql'),
+ *   createInterpolationTransform({ SCHEMA: 'app' }),
+ *   createWriteStream('seed.out.sql'),
+ * );
+ */
+export function createInterpolationTransform(
+  variables: Variables = defaults,
+  options: StreamOptions = {},
+): Transform {
+  const interpolator = streamInterpolator(variables, options);
+  const decoder = new StringDecoder("utf8");
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      try {
+        const out = interpolator.push(decoder.write(chunk));
+        callback(null, out || undefined);
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        const out = interpolator.push(decoder.end()) + interpolator.flush();
+        callback(null, out || undefined);
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+}
+
+/**
+ * Interpolates a configuration file according to its format: the file is
+ * parsed by a format adapter, only its string values are interpolated, and
+ * the adapter writes the result back in the same format. Values containing
+ * quotes or newlines therefore stay valid, unlike with text interpolation.
+ *
+ * JSON, JSONC and INI are supported out of the box; their adapters keep the
+ * layout and comments of the file and only rewrite the values that changed.
+ * Other formats, such as YAML or TOML, can be added with
+ * {@link registerFormat}. The file itself is not modified.
+ *
+ * @param path The file to interpolate.
+ * @param variables A variable source or ordered list of sources. Defaults to `process.env`.
+ * @param options Interpolation options and the format of the file.
+ * @returns The interpolated content of the file.
+ * @throws {TypeError} When no format matches the file.
+ * @throws {SyntaxError} When the file cannot be parsed in its format.
+ * @throws {UnresolvedPlaceholderError} In strict mode, when any placeholder cannot be resolved.
+ *
+ * @example
+ * // settings.jsonc: { "password": "${DB_PASSWORD}" // from the vault }
+ * interpolateFile('settings.jsonc', { DB_PASSWORD: 'p"w' });
+ * // Returns: '{ "password": "p\\"w" // from the vault }'
+ */
+export function interpolateFile(
+  path: string,
+  variables: Variables = defaults,
+  options: InterpolateFileOptions = {},
+): string {
+  const { format, ...interpolateOptions } = options;
+  const adapter = findFormat(format, extname(path));
+  const text = readFileSync(path, "utf8");
+  const result = interpolateWith(
+    adapter.parse(text),
+    variables,
+    interpolateOptions,
+  );
+  return adapter.stringify(result, text);
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+
+import { interpolate, interpolateWithReport } from "./index.js";
+
+describe("interpolateWithReport", () => {
+  it("reports variables, defaults and unresolved placeholders by path", () => {
+    const config = {
+      url: "http://${HOST:localhost}:${PORT}",
+      name: "${NAME}",
+      plain: "no placeholders",
+      list: [1, "${PORT}"],
+    };
+    const { result, report } = interpolateWithReport(config, { PORT: "8080" });
+    expect(result).toEqual(interpolate(config, { PORT: "8080" }));
+    expect(report).toEqual({
+      url: {
+        placeholders: [
+          {
+            key: "HOST",
+            placeholder: "${HOST:localhost}",
+            source: "default",
+            depth: 0,
+            value: "localhost",
+          },
+          {
+            key: "PORT",
+            placeholder: "${PORT}",
+            source: "variable",
+            depth: 0,
+            value: "8080",
+          },
+        ],
+        passes: 1,
+        truncated: false,
+      },
+      name: {
+        placeholders: [
+          {
+            key: "NAME",
+            placeholder: "${NAME}",
+            source: "unresolved",
+            depth: 0,
+          },
+        ],
+        passes: 1,
+        truncated: false,
+      },
+      "list[1]": {
+        placeholders: [
+          {
+            key: "PORT",
+            placeholder: "${PORT}",
+            source: "variable",
+            depth: 0,
+            value: "8080",
+          },
+        ],
+        passes: 1,
+        truncated: false,
+      },
+    });
+  });
+
+  it("distinguishes nested defaults and counts passes", () => {
+    const { report } = interpolateWithReport("${URL:http://${HOST:db}}", {});
+    expect(report[""]).toEqual({
+      placeholders: [
+        {
+          key: "URL",
+          placeholder: "${URL:http://${HOST:db}}",
+          source: "default",
+          depth: 0,
+          value: "http://db",
+        },
+        {
+          key: "HOST",
+          placeholder: "${HOST:db}",
+          source: "nested-default",
+          depth: 1,
+          value: "db",
+        },
+      ],
+      passes: 2,
+      truncated: false,
+    });
+  });
+
+  it("reports placeholders nested in variable values every time", () => {
+    const { report } = interpolateWithReport("${A} ${A}", {
+      A: "${B}",
+      B: "b",
+    });
+    expect(
+      report[""].placeholders.map(({ key, depth }) => [key, depth]),
+    ).toEqual([
+      ["A", 0],
+      ["B", 1],
+      ["A", 0],
+      ["B", 1],
+    ]);
+    expect(report[""].passes).toBe(2);
+  });
+
+  it("flags truncation by maxPasses", () => {
+    const variables = { A: "${B}", B: "${C}", C: "c" };
+    const { result, report } = interpolateWithReport("${A}", variables, {
+      maxPasses: 2,
+    });
+    expect(result).toBe("${C}");
+    expect(report[""].passes).toBe(2);
+    expect(report[""].truncated).toBe(true);
+    expect(
+      interpolateWithReport("${A}", variables, { maxPasses: 3 }).report[""]
+        .truncated,
+    ).toBe(false);
+  });
+
+  it("reports filtered values and references", () => {
+    const { report } = interpolateWithReport(
+      { host: "${HOST|upper}", url: "http://${@host}", copy: "${@host}" },
+      { HOST: "db" },
+      { filters: true, references: true },
+    );
+    expect(report.host.placeholders[0]).toMatchObject({
+      source: "variable",
+      value: "DB",
+    });
+    expect(report.url.placeholders[0]).toMatchObject({
+      key: "@host",
+      source: "reference",
+      value: "DB",
+    });
+    expect(report.copy.placeholders).toEqual([
+      {
+        key: "@host",
+        placeholder: "${@host}",
+        source: "reference",
+        depth: 0,
+        value: "DB",
+      },
+    ]);
+  });
+});
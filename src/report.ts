@@ -0,0 +1,110 @@
+import {
+  defaults,
+  interpolateWith,
+  type Input,
+  type InterpolateOptions,
+  type Variables,
+} from "./interpolate.js";
+
+/**
+ * Where the text replacing a placeholder came from:
+ * - `"variable"`: the value of the variable
+ * - `"reference"`: another value of the document, through an `@path` key
+ * - `"default"`: the word after the operator of a placeholder written in the
+ *   string itself (or the empty string some POSIX operators produce)
+ * - `"nested-default"`: the same, for a placeholder found in a variable value,
+ *   a default or a filter argument
+ * - `"unresolved"`: nothing, the placeholder was left in place
+ */
+export type ResolutionSource =
+  | "variable"
+  | "reference"
+  | "default"
+  | "nested-default"
+  | "unresolved";
+
+/**
+ * A placeholder met while interpolating a string.
+ */
+export interface PlaceholderResolution {
+  /** Variable name, or `@path` for references. */
+  key: string;
+  /** Placeholder as written, e.g. `${PORT:8080}`. */
+  placeholder: string;
+  /** Where its replacement came from. */
+  source: ResolutionSource;
+  /**
+   * Nesting level: 0 for placeholders written in the string, 1 for the ones
+   * found in their values or defaults, and so on.
+   */
+  depth: number;
+  /** Text substituted, after filters. Absent when unresolved. */
+  value?: string;
+}
+
+/**
+ * How a single string of the input was interpolated.
+ */
+export interface PathReport {
+  /** Placeholders met, each one followed by the placeholders nested in it. */
+  placeholders: PlaceholderResolution[];
+  /** Number of nesting levels expanded, at most `maxPasses`. */
+  passes: number;
+  /** Whether placeholders were left unexpanded because of `maxPasses`. */
+  truncated: boolean;
+}
+
+/**
+ * Reports of the strings containing placeholders, keyed by path (`""` for a
+ * root string, `db.hosts[0]` for nested values).
+ */
+export type InterpolationReport = Record<string, PathReport>;
+
+/**
+ * Result of {@link interpolateWithReport}.
+ */
+export interface ReportedInterpolation<T> {
+  /** The interpolated value, as returned by {@link interpolate}. */
+  result: T;
+  /** Provenance of every placeholder, by path. */
+  report: InterpolationReport;
+}
+
+/**
+ * Interpolates a value like {@link interpolate} and reports, for every string
+ * containing placeholders, where each placeholder got its replacement from,
+ * how many nesting levels were expanded and whether `maxPasses` cut the
+ * expansion short. Useful to understand why a configuration value looks wrong.
+ *
+ * @param content The input to process. May be a string, array, or object graph.
+ * @param variables A variable source or ordered list of sources. Defaults to `process.env`.
+ * @param options Interpolation options.
+ * @returns The interpolated value and its report.
+ * @throws {UnresolvedPlaceholderError} In strict mode, when any placeholder cannot be resolved.
+ *
+ * @example
+ * const { result, report } = interpolateWithReport(
+ *   { url: 'http://${HOST:localhost}:${PORT}' },
+ *   { PORT: '8080' },
+ * );
+ * // result: { url: 'http://localhost:8080' }
+ * // report: {
+ * //   url: {
+ * //     placeholders: [
+ * //       { key: 'HOST', placeholder: '${HOST:localhost}', source: 'default', depth: 0, value: 'localhost' },
+ * //       { key: 'PORT', placeholder: '${PORT}', source: 'variable', depth: 0, value: '8080' },
+ * //     ],
+ * //     passes: 1,
+ * //     truncated: false,
+ * //   },
+ * // }
+ */
+export function interpolateWithReport<T extends Input>(
+  content: T,
+  variables: Variables = defaults,
+  options?: InterpolateOptions,
+): ReportedInterpolation<T> {
+  const report: InterpolationReport = {};
+  const result = interpolateWith(content, variables, options, { report });
+  return { result, report };
+}
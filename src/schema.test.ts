@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+
+import { EnvSchemaError } from "./errors.js";
+import { defineEnvSchema } from "./index.js";
+
+describe("defineEnvSchema", () => {
+  const schema = defineEnvSchema({
+    DATABASE_URL: { type: "url", description: "Postgres connection string" },
+    PORT: { type: "integer", default: "3000" },
+    DEBUG: { type: "boolean", required: false },
+    LOG_LEVEL: { values: ["debug", "info", "warn"], required: false },
+    REGION: { pattern: /^eu-/ },
+    FEATURES: { type: "json", required: false },
+  });
+  const valid = { DATABASE_URL: "postgres://db/app", REGION: "eu-west-1" };
+
+  describe("validate", () => {
+    it("accepts variables matching the schema", () => {
+      expect(schema.validate(valid)).toEqual([]);
+      expect(
+        schema.validate({
+          ...valid,
+          PORT: "8080",
+          DEBUG: "yes",
+          LOG_LEVEL: "info",
+          FEATURES: '{"beta":true}',
+        }),
+      ).toEqual([]);
+    });
+
+    it("reports every violation at once", () => {
+      expect(
+        schema.validate({
+          PORT: "80.5",
+          DEBUG: "maybe",
+          LOG_LEVEL: "verbose",
+          REGION: "us-east-1",
+          FEATURES: "{",
+        }),
+      ).toEqual([
+        {
+          key: "DATABASE_URL",
+          code: "missing",
+          message: "DATABASE_URL is required (Postgres connection string)",
+        },
+        {
+          key: "PORT",
+          code: "invalid-type",
+          message: 'PORT must be an integer, got "80.5"',
+          value: "80.5",
+        },
+        {
+          key: "DEBUG",
+          code: "invalid-type",
+          message: 'DEBUG must be a boolean, got "maybe"',
+          value: "maybe",
+        },
+        {
+          key: "LOG_LEVEL",
+          code: "not-allowed",
+          message:
+            'LOG_LEVEL must be one of "debug", "info", "warn", got "verbose"',
+          value: "verbose",
+        },
+        {
+          key: "REGION",
+          code: "pattern-mismatch",
+          message: 'REGION must match /^eu-/, got "us-east-1"',
+          value: "us-east-1",
+        },
+        {
+          key: "FEATURES",
+          code: "invalid-type",
+          message: 'FEATURES must be valid JSON, got "{"',
+          value: "{",
+        },
+      ]);
+    });
+
+    it("keeps secret values out of violations", () => {
+      const secrets = defineEnvSchema({
+        API_TOKEN: { pattern: /^tk_/ },
+        DATABASE_URL: { type: "url", secret: true },
+        DB_PASSWORD: { values: ["a", "b"], secret: false },
+      });
+      const violations = secrets.validate({
+        API_TOKEN: "s3cr3t",
+        DATABASE_URL: "postgres//app:s3cr3t@db",
+        DB_PASSWORD: "c",
+      });
+      expect(violations).toEqual([
+        {
+          key: "API_TOKEN",
+          code: "pattern-mismatch",
+          message: "API_TOKEN must match /^tk_/",
+        },
+        {
+          key: "DATABASE_URL",
+          code: "invalid-type",
+          message: "DATABASE_URL must be a URL",
+        },
+        {
+          key: "DB_PASSWORD",
+          code: "not-allowed",
+          message: 'DB_PASSWORD must be one of "a", "b", got "c"',
+          value: "c",
+        },
+      ]);
+      expect(() => secrets.interpolate("", { DATABASE_URL: "s3cr3t" })).toThrow(
+        expect.objectContaining({
+          message: expect.not.stringContaining("s3cr3t"),
+        }),
+      );
+    });
+
+    it("reads every kind of variable source", () => {
+      const env = new Map([["REGION", "eu-central-1"]]);
+      expect(
+        schema.validate([["cli", { DATABASE_URL: "postgres://x" }], env]),
+      ).toEqual([]);
+    });
+  });
+
+  describe("check", () => {
+    it("reports placeholders using undeclared variables", () => {
+      expect(
+        schema.check({
+          db: { url: "${DATBASE_URL}", port: "${PORT}" },
+          cache: "${CACHE_URL:${DATBASE_URL}}",
+        }),
+      ).toEqual([
+        {
+          key: "DATBASE_URL",
+          code: "undeclared",
+          message:
+            "DATBASE_URL is not declared (used in db.url, cache); did you mean DATABASE_URL?",
+          paths: ["db.url", "cache"],
+        },
+        {
+          key: "CACHE_URL",
+          code: "undeclared",
+          message: "CACHE_URL is not declared (used in cache)",
+          paths: ["cache"],
+        },
+      ]);
+    });
+
+    it("follows the syntax options", () => {
+      expect(schema.check("{{PORT}} ${TYPO}", { syntax: "mustache" })).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe("interpolate", () => {
+    it("interpolates with the schema defaults as the last source", () => {
+      expect(
+        schema.interpolate({ url: "${DATABASE_URL}", port: "${PORT}" }, valid),
+      ).toEqual({ url: "postgres://db/app", port: "3000" });
+    });
+
+    it("throws every violation before interpolating", () => {
+      let error: unknown;
+      try {
+        schema.interpolate("${DATBASE_URL}", { REGION: "us" });
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(EnvSchemaError);
+      expect((error as EnvSchemaError).violations.map((v) => v.code)).toEqual([
+        "missing",
+        "pattern-mismatch",
+        "undeclared",
+      ]);
+      expect((error as EnvSchemaError).message).toBe(
+        [
+          "Invalid environment:",
+          "  - DATABASE_URL is required (Postgres connection string)",
+          '  - REGION must match /^eu-/, got "us"',
+          "  - DATBASE_URL is not declared (used in <root>); did you mean DATABASE_URL?",
+        ].join("\n"),
+      );
+    });
+  });
+
+  it("rejects invalid definitions", () => {
+    expect(() => defineEnvSchema({ PORT: { type: "port" as never } })).toThrow(
+      'Unknown type "port" for PORT',
+    );
+    expect(() =>
+      defineEnvSchema({ PORT: { type: "number", default: "http" } }),
+    ).toThrow('Invalid default: PORT must be a number, got "http"');
+  });
+});
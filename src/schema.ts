@@ -0,0 +1,301 @@
+import {
+  CoercionError,
+  EnvSchemaError,
+  type SchemaViolation,
+  type SchemaViolationCode,
+} from "./errors.js";
+import { coerceValue } from "./filters.js";
+import {
+  defaults,
+  interpolateWith,
+  toLookup,
+  type Input,
+  type InterpolateOptions,
+  type Variables,
+} from "./interpolate.js";
+import { listPlaceholders, type ListPlaceholdersOptions } from "./inventory.js";
+import { secretMatcher } from "./secrets.js";
+
+/**
+ * Types a variable can be declared with. `number`, `boolean` and `json` accept
+ * the same text as the type hints of coercion mode (`1`, `yes` and `on` are
+ * booleans, for instance).
+ */
+export type EnvVariableType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "json"
+  | "url";
+
+/**
+ * What an environment schema expects of one variable.
+ */
+export interface EnvVariableSpec {
+  /** Type the value must have. Defaults to `"string"`. */
+  type?: EnvVariableType;
+  /** Whether the variable must be set. Defaults to true unless a default is given. */
+  required?: boolean;
+  /** Value used when the variable is not set. Checked like a set value. */
+  default?: string;
+  /** Values the variable may take. */
+  values?: readonly string[];
+  /** Pattern the value must match. */
+  pattern?: RegExp;
+  /** What the variable is for, shown when it is missing. */
+  description?: string;
+  /**
+   * Whether the value is secret and must not appear in violations. Defaults to
+   * true for names matching the default secret patterns (`*TOKEN`,
+   * `*PASSWORD`, `*_KEY`...).
+   */
+  secret?: boolean;
+}
+
+/**
+ * Declared variables of an environment schema, by name.
+ */
+export type EnvSchemaDefinition = Record<string, EnvVariableSpec>;
+
+/**
+ * An environment schema created by {@link defineEnvSchema}.
+ */
+export interface EnvSchema {
+  /** The declared variables. */
+  readonly definition: Readonly<EnvSchemaDefinition>;
+  /**
+   * Checks variables against the schema. Defaults declared in the schema
+   * stand for variables that are not set.
+   *
+   * @param variables A variable source or ordered list of sources. Defaults to `process.env`.
+   * @returns Every violation found, in declaration order.
+   */
+  validate(variables?: Variables): SchemaViolation[];
+  /**
+   * Checks that every placeholder of a structure, including the ones nested
+   * in defaults, uses a declared variable.
+   *
+   * @param content The input to check. May be a string, array, or object graph.
+   * @param options Syntax options matching the ones used to interpolate.
+   * @returns One violation per undeclared variable, in order of appearance.
+   */
+  check(content: Input, options?: ListPlaceholdersOptions): SchemaViolation[];
+  /**
+   * Validates the variables and the placeholders of `content`, then
+   * interpolates it like {@link interpolate}, with the defaults declared in
+   * the schema as the last variable source.
+   *
+   * @param content The input to process. May be a string, array, or object graph.
+   * @param variables A variable source or ordered list of sources. Defaults to `process.env`.
+   * @param options Interpolation options.
+   * @returns The interpolated value.
+   * @throws {EnvSchemaError} When any variable or placeholder violates the schema.
+   */
+  interpolate<T extends Input>(
+    content: T,
+    variables?: Variables,
+    options?: InterpolateOptions,
+  ): T;
+}
+
+// Variables whose values are left out of violations unless the spec says
+const isDefaultSecret = secretMatcher();
+// Types checked by coercion; the others are checked here
+const COERCED_TYPES = new Set<EnvVariableType>(["number", "boolean", "json"]);
+// Types accepted in a definition, as written in messages
+const VARIABLE_TYPES = new Map<string, string>([
+  ["string", "a string"],
+  ["number", "a number"],
+  ["integer", "an integer"],
+  ["boolean", "a boolean"],
+  ["json", "valid JSON"],
+  ["url", "a URL"],
+]);
+
+/**
+ * Tells whether `value` has the given type.
+ */
+function hasType(value: string, type: EnvVariableType): boolean {
+  if (COERCED_TYPES.has(type)) {
+    try {
+      coerceValue("", value, type);
+      return true;
+    } catch (error) {
+      if (error instanceof CoercionError) return false;
+      throw error;
+    }
+  }
+  switch (type) {
+    case "integer":
+      return value.trim() !== "" && Number.isSafeInteger(Number(value));
+    case "url":
+      try {
+        new URL(value);
+        return true;
+      } catch {
+        return false;
+      }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Checks a value against the spec of variable `key`.
+ */
+function checkValue(
+  key: string,
+  spec: EnvVariableSpec,
+  value: string,
+): SchemaViolation[] {
+  const { type = "string", values, pattern } = spec;
+  const found: SchemaViolation[] = [];
+  // Secret values are kept out of messages, which end up in logs
+  const violation = (
+    code: SchemaViolationCode,
+    expected: string,
+  ): SchemaViolation =>
+    (spec.secret ?? isDefaultSecret(key))
+      ? { key, code, message: `${key} must ${expected}` }
+      : {
+          key,
+          code,
+          message: `${key} must ${expected}, got ${JSON.stringify(value)}`,
+          value,
+        };
+  if (!hasType(value, type)) {
+    found.push(violation("invalid-type", `be ${VARIABLE_TYPES.get(type)}`));
+  }
+  if (values && !values.includes(value)) {
+    const allowed = values.map((v) => JSON.stringify(v)).join(", ");
+    found.push(violation("not-allowed", `be one of ${allowed}`));
+  }
+  if (pattern) {
+    // Global and sticky patterns would otherwise depend on earlier calls
+    pattern.lastIndex = 0;
+    if (!pattern.test(value)) {
+      found.push(violation("pattern-mismatch", `match ${pattern}`));
+    }
+  }
+  return found;
+}
+
+/**
+ * Number of single-character edits turning `a` into `b`.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Declares the variables an application expects, to check them before
+ * interpolating and to catch placeholders using undeclared variables, such as
+ * typos (`${DATBASE_URL}`). Every violation is reported at once.
+ *
+ * @param definition The expected variables, by name.
+ * @returns The schema.
+ * @throws {TypeError} When a type is unknown or a default violates its own spec.
+ *
+ * @example
+ * const schema = defineEnvSchema({
+ *   DATABASE_URL: { type: 'url', description: 'Postgres connection string' },
+ *   PORT: { type: 'integer', default: '3000' },
+ *   LOG_LEVEL: { values: ['debug', 'info', 'warn'], required: false },
+ * });
+ *
+ * schema.interpolate(
+ *   { db: '${DATBASE_URL}', port: '${PORT}' },
+ *   { DATABASE_URL: 'postgres://db/app', LOG_LEVEL: 'verbose' },
+ * );
+ * // throws EnvSchemaError: Invalid environment:
+ * //   - LOG_LEVEL must be one of "debug", "info", "warn", got "verbose"
+ * //   - DATBASE_URL is not declared (used in db); did you mean DATABASE_URL?
+ */
+export function defineEnvSchema(definition: EnvSchemaDefinition): EnvSchema {
+  const declared: EnvSchemaDefinition = Object.freeze({ ...definition });
+  const fallbacks: Record<string, string> = {};
+  for (const [key, spec] of Object.entries(declared)) {
+    if (spec.type !== undefined && !VARIABLE_TYPES.has(spec.type)) {
+      throw new TypeError(`Unknown type "${spec.type}" for ${key}`);
+    }
+    if (spec.default === undefined) continue;
+    const [violation] = checkValue(key, spec, spec.default);
+    if (violation) {
+      throw new TypeError(`Invalid default: ${violation.message}`);
+    }
+    fallbacks[key] = spec.default;
+  }
+
+  const validate = (variables: Variables = defaults): SchemaViolation[] => {
+    const lookup = toLookup(variables);
+    const violations: SchemaViolation[] = [];
+    for (const [key, spec] of Object.entries(declared)) {
+      const value = lookup(key) ?? spec.default;
+      if (value !== undefined) {
+        violations.push(...checkValue(key, spec, value));
+      } else if (spec.required ?? true) {
+        const about = spec.description ? ` (${spec.description})` : "";
+        violations.push({
+          key,
+          code: "missing",
+          message: `${key} is required${about}`,
+        });
+      }
+    }
+    return violations;
+  };
+
+  const check = (
+    content: Input,
+    options: ListPlaceholdersOptions = {},
+  ): SchemaViolation[] =>
+    listPlaceholders(content, options)
+      .filter(({ key }) => !Object.hasOwn(declared, key))
+      .map(({ key, paths }) => {
+        // Closest declared name, when close enough to be a typo
+        let suggestion: string | undefined;
+        let best = Math.min(2, key.length - 1);
+        for (const name of Object.keys(declared)) {
+          const distance = editDistance(key, name);
+          if (distance <= best) {
+            suggestion = name;
+            best = distance - 1;
+          }
+        }
+        const used = paths.map((path) => path || "<root>").join(", ");
+        return {
+          key,
+          code: "undeclared",
+          message: `${key} is not declared (used in ${used})${suggestion ? `; did you mean ${suggestion}?` : ""}`,
+          paths,
+        };
+      });
+
+  return {
+    definition: declared,
+    validate,
+    check,
+    interpolate(content, variables = defaults, options = {}) {
+      const violations = [...validate(variables), ...check(content, options)];
+      if (violations.length > 0) throw new EnvSchemaError(violations);
+      return interpolateWith(
+        content,
+        [toLookup(variables), fallbacks],
+        options,
+      );
+    },
+  };
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  CoercionError,
+  FilterError,
+  interpolateWithSecrets,
+  UnresolvedPlaceholderError,
+} from "./index.js";
+
+describe("interpolateWithSecrets", () => {
+  const variables = {
+    DB_HOST: "db",
+    DB_PASSWORD: "s3cr3t",
+    GITHUB_TOKEN: "ghp_x",
+    DB_URL: "postgres://app:${DB_PASSWORD}@${DB_HOST}/app",
+  };
+
+  it("returns the result, a redacted twin and an audit trail", () => {
+    const config = {
+      db: { url: "${DB_URL}", host: "${DB_HOST}" },
+      headers: ["Bearer ${GITHUB_TOKEN}"],
+    };
+    const { result, redacted, audit } = interpolateWithSecrets(
+      config,
+      variables,
+    );
+    expect(result).toEqual({
+      db: { url: "postgres://app:s3cr3t@db/app", host: "db" },
+      headers: ["Bearer ghp_x"],
+    });
+    expect(redacted).toEqual({
+      db: { url: "postgres://app:***@db/app", host: "db" },
+      headers: ["Bearer ***"],
+    });
+    expect(audit).toEqual([
+      { key: "DB_PASSWORD", path: "db.url" },
+      { key: "GITHUB_TOKEN", path: "headers[0]" },
+    ]);
+  });
+
+  it("accepts names, globs, regular expressions and predicates", () => {
+    const input = "${API_SIGNING} ${session} ${PLAIN}";
+    const values = { API_SIGNING: "a", session: "b", PLAIN: "c" };
+    expect(
+      interpolateWithSecrets(input, values, {
+        secrets: ["api_*", /^session$/],
+      }).redacted,
+    ).toBe("*** *** c");
+    expect(
+      interpolateWithSecrets(input, values, {
+        secrets: (key) => key === "PLAIN",
+        mask: "[hidden]",
+      }).redacted,
+    ).toBe("a b [hidden]");
+  });
+
+  it("does not report secrets that were not injected", () => {
+    const { redacted, audit } = interpolateWithSecrets(
+      "${MISSING_TOKEN:none}",
+      {},
+    );
+    expect(redacted).toBe("none");
+    expect(audit).toEqual([]);
+  });
+
+  it("masks filtered and coerced secrets as a whole", () => {
+    const { result, redacted } = interpolateWithSecrets(
+      { pin: "${PIN_SECRET|number}", b64: "${API_KEY|base64}" },
+      { PIN_SECRET: "1234", API_KEY: "k" },
+      { coerce: true, filters: true },
+    );
+    expect(result).toEqual({ pin: 1234, b64: "aw==" });
+    expect(redacted).toEqual({ pin: "***", b64: "***" });
+  });
+
+  it("redacts secrets reached through references", () => {
+    const { redacted, audit } = interpolateWithSecrets(
+      { password: "${DB_PASSWORD}", copy: "${@password}" },
+      variables,
+      { references: true },
+    );
+    expect(redacted).toEqual({ password: "***", copy: "***" });
+    expect(audit).toEqual([{ key: "DB_PASSWORD", path: "password" }]);
+  });
+
+  it("looks every variable up once", () => {
+    const lookup = vi.fn((key: string) =>
+      key in variables ? variables[key as keyof typeof variables] : undefined,
+    );
+    const { result, redacted } = interpolateWithSecrets(
+      { url: "${DB_URL}", [`\${GITHUB_TOKEN}`]: "${DB_HOST}" },
+      lookup,
+      { keys: true },
+    );
+    expect(result).toEqual({
+      url: "postgres://app:s3cr3t@db/app",
+      ghp_x: "db",
+    });
+    expect(redacted).toEqual({ url: "postgres://app:***@db/app", "***": "db" });
+    expect(lookup.mock.calls.map(([key]) => key)).toEqual([
+      "DB_URL",
+      "DB_PASSWORD",
+      "DB_HOST",
+      "GITHUB_TOKEN",
+      "DB_HOST",
+    ]);
+  });
+
+  it("leaves secrets out of coercion and filter errors", () => {
+    const coercion = (() => {
+      try {
+        interpolateWithSecrets(
+          { p: "${DB_PASSWORD|number}" },
+          { DB_PASSWORD: "hunter2" },
+          { coerce: true },
+        );
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(coercion).toBeInstanceOf(CoercionError);
+    expect(coercion).toMatchObject({
+      message: "Cannot coerce DB_PASSWORD to number (at p)",
+      value: undefined,
+      secret: true,
+    });
+
+    const failing = {
+      check: (value: unknown) => {
+        throw new Error(`bad value ${String(value)}`);
+      },
+    };
+    expect(() =>
+      interpolateWithSecrets(
+        "${DB_URL|check}",
+        { ...variables, DB_PASSWORD: "hunter2" },
+        { filters: failing },
+      ),
+    ).toThrow(
+      expect.objectContaining({
+        constructor: FilterError,
+        message: 'Filter "check" failed for DB_URL',
+        reason: undefined,
+      }),
+    );
+    expect(() =>
+      interpolateWithSecrets("${DB_HOST|check}", variables, {
+        filters: failing,
+      }),
+    ).toThrow('Filter "check" failed for DB_HOST: bad value db');
+  });
+
+  it("keeps strict mode", () => {
+    expect(() =>
+      interpolateWithSecrets("${MISSING}", {}, { strict: true }),
+    ).toThrow(UnresolvedPlaceholderError);
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  defaults,
+  interpolateWith,
+  type Input,
+  type InterpolateOptions,
+  type SecretHandling,
+  type Variables,
+} from "./interpolate.js";
+
+/**
+ * Options for {@link interpolateWithSecrets}.
+ */
+export interface SecretOptions extends InterpolateOptions {
+  /**
+   * Variables to treat as secrets: exact names, glob patterns where `*`
+   * matches any characters (`*_TOKEN`), regular expressions, or a predicate.
+   * Names and globs are compared case-insensitively. Defaults to
+   * {@link DEFAULT_SECRET_PATTERNS}.
+   */
+  secrets?: Array<string | RegExp> | ((key: string) => boolean);
+  /** Text replacing secret values in the redacted result. Defaults to `***`. */
+  mask?: string;
+}
+
+/**
+ * A secret variable substituted into the result, as reported by
+ * {@link interpolateWithSecrets}.
+ */
+export interface SecretUsage {
+  /** Name of the secret variable. */
+  key: string;
+  /** Path of the string it was injected into (`""` for the root). */
+  path: string;
+}
+
+/**
+ * Result of {@link interpolateWithSecrets}.
+ */
+export interface SecretInterpolation<T> {
+  /** The interpolated value, with the real secrets. */
+  result: T;
+  /** The same value with every secret substitution replaced by the mask. */
+  redacted: T;
+  /** Every secret injected and where, in traversal order. */
+  audit: SecretUsage[];
+}
+
+/**
+ * Name patterns treated as secrets when {@link SecretOptions.secrets} is not
+ * given.
+ */
+export const DEFAULT_SECRET_PATTERNS: readonly string[] = Object.freeze([
+  "*TOKEN",
+  "*PASSWORD",
+  "*PASSWD",
+  "*SECRET",
+  "*_KEY",
+  "*CREDENTIALS",
+]);
+
+/**
+ * Builds the predicate telling whether a variable is a secret.
+ */
+function secretMatcher(
+  secrets: SecretOptions["secrets"] = [...DEFAULT_SECRET_PATTERNS],
+): (key: string) => boolean {
+  if (typeof secrets === "function") return secrets;
+  const patterns = secrets.map((pattern) =>
+    pattern instanceof RegExp
+      ? pattern
+      : new RegExp(
+          `^${pattern
+            .split("*")
+            .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+            .join(".*")}$`,
+          "i",
+        ),
+  );
+  return (key) => patterns.some((pattern) => pattern.test(key));
+}
+
+/**
+ * Interpolates a value like {@link interpolate} while keeping track of secret
+ * variables, so that configurations can be logged safely.
+ *
+ * Returns the real result, a redacted twin where every substitution of a
+ * secret (including secrets nested in other variables or defaults) reads as
+ * the mask, and an audit trail of which secret was injected at which path.
+ * Placeholders with filters are masked as a whole when their value holds a
+ * secret, and their coercion and filter errors leave the value out. Secrets
+ * reached through intra-document references are reported at the referenced
+ * value.
+ *
+ * @param content The input to process. May be a string, array, or object graph.
+ * @param variables A variable source or ordered list of sources. Defaults to `process.env`.
+ * @param options Interpolation options, the secret patterns and the mask.
+ * @returns The result, its redacted twin and the audit trail.
+ * @throws {UnresolvedPlaceholderError} In strict mode, when any placeholder cannot be resolved.
+ * @throws {CoercionError} When a type hint does not match a value, without the value if it holds a secret.
+ *
+ * @example
+ * const { result, redacted, audit } = interpolateWithSecrets(
+ *   { db: { url: 'postgres://app:${DB_PASSWORD}@${DB_HOST}/app' } },
+ *   { DB_PASSWORD: 's3cr3t', DB_HOST: 'db' },
+ * );
+ * // result:   { db: { url: 'postgres://app:s3cr3t@db/app' } }
+ * // redacted: { db: { url: 'postgres://app:***@db/app' } }
+ * // audit:    [{ key: 'DB_PASSWORD', path: 'db.url' }]
+ */
+export function interpolateWithSecrets<T extends Input>(
+  content: T,
+  variables: Variables = defaults,
+  options: SecretOptions = {},
+): SecretInterpolation<T> {
+  const { secrets, mask = "***", ...interpolateOptions } = options;
+  const handling: SecretHandling = {
+    isSecret: secretMatcher(secrets),
+    mask,
+    audit: [],
+  };
+
+  // Both copies come from a single resolution, calling every lookup once
+  const result = interpolateWith(content, variables, interpolateOptions, {
+    secrets: handling,
+  });
+  return { result, redacted: handling.redacted as T, audit: handling.audit };
+}
+
+/** @internal */
+export { secretMatcher };
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+
+import { UnresolvedPlaceholderError } from "./errors.js";
+import { createInterpolationStream } from "./index.js";
+import { replace, type InterpolateOptions } from "./interpolate.js";
+import { streamInterpolator, type StreamOptions } from "./stream.js";
+
+const variables = {
+  A: "a",
+  B: "b",
+  NAME: "Ada",
+  NESTED: "${A}-${B}",
+  "app.port": "8080",
+};
+
+/**
+ * Interpolates `chunks` one after the other.
+ */
+function run(chunks: string[], options: StreamOptions = {}): string {
+  const interpolator = streamInterpolator(variables, options);
+  return (
+    chunks.map((chunk) => interpolator.push(chunk)).join("") +
+    interpolator.flush()
+  );
+}
+
+/**
+ * Checks that every way of splitting `text` in two, and the text split into
+ * single characters, gives the same output as the whole text.
+ */
+function expectSplitsToMatch(text: string, options: InterpolateOptions = {}) {
+  const expected = replace(text, variables, options);
+  for (let i = 0; i <= text.length; i++) {
+    expect(run([text.slice(0, i), text.slice(i)], options)).toBe(expected);
+  }
+  expect(run([...text], options)).toBe(expected);
+}
+
+async function collect(
+  chunks: string[],
+  stream: TransformStream<string, string>,
+): Promise<string> {
+  const source = new ReadableStream<string>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+  let out = "";
+  for await (const chunk of source.pipeThrough(stream)) out += chunk;
+  return out;
+}
+
+describe("streamInterpolator", () => {
+  it.each([
+    "Hello ${NAME}!",
+    "${A}${B}${NESTED}",
+    "${MISSING:${A:x}-${MISSING:'quoted ${B}'}} tail",
+    '${MISSING:{"json":{"a":1}}}',
+    "escaped \\${A}, kept \\\\${A}, both \\\\\\${B}",
+    "backslashes without placeholder \\\\ \\",
+    "unclosed ${A and ${B} then ${C",
+    "invalid ${not valid ${A}} name",
+    "emoji 😀 ${A} 😀",
+  ])("resolves %j the same whatever the chunks", (text) => {
+    expectSplitsToMatch(text);
+  });
+
+  it("supports the other dialects", () => {
+    expectSplitsToMatch("Hi {{NAME}} {{ MISSING : {{A}} }}", {
+      syntax: "mustache",
+    });
+    expectSplitsToMatch("Hi $NAME, $A$B \\$B $app.port.", {
+      syntax: "bare",
+      names: "dotted",
+    });
+    expectSplitsToMatch("%A%%B% 100% %NAME%", { syntax: "windows" });
+    // The backslashes are halved by a literal placeholder closing on an
+    // unclosed opening token
+    expectSplitsToMatch("-A\\\\%}}:$}%A}", { syntax: "windows" });
+  });
+
+  it("applies filters and POSIX operators", () => {
+    expectSplitsToMatch("${NAME|upper} ${MISSING:-${A}} ${A:+set}", {
+      filters: true,
+      posix: true,
+    });
+  });
+
+  it("emits the text before an unfinished placeholder", () => {
+    const interpolator = streamInterpolator(variables, {});
+    expect(interpolator.push("x ${A} y ${B:")).toBe("x a y ");
+    expect(interpolator.push("z} \\")).toBe("b ");
+    expect(interpolator.push("${A}")).toBe("${A}");
+    expect(interpolator.flush()).toBe("");
+  });
+
+  it("keeps an opening token literal past the maximum placeholder length", () => {
+    const interpolator = streamInterpolator(variables, {
+      maxPlaceholderLength: 8,
+    });
+    expect(interpolator.push("${A ")).toBe("");
+    expect(interpolator.push("long text ${B}")).toBe("${A long text b");
+    expect(interpolator.flush()).toBe("");
+  });
+
+  it("bounds the backslashes held back", () => {
+    const interpolator = streamInterpolator(variables, {
+      maxPlaceholderLength: 4,
+    });
+    expect(interpolator.push("x\\\\\\\\\\\\")).toBe("x\\\\");
+    expect(interpolator.push("${A}")).toBe("\\\\a");
+    expect(interpolator.flush()).toBe("");
+  });
+
+  it("cuts off unclosed opening tokens in linear time", () => {
+    const text = "line ${ with an unclosed opener\n".repeat(6500);
+    const chunks = text.match(/[^]{1,1000}/g) ?? [];
+    const started = performance.now();
+    expect(run(chunks, { maxPlaceholderLength: 65536 })).toBe(text);
+    expect(performance.now() - started).toBeLessThan(2500);
+  });
+
+  it("reports unresolved placeholders with offsets in the whole output", () => {
+    const interpolator = streamInterpolator(variables, { strict: true });
+    expect(interpolator.push("${A} ${MISS")).toBe("a ");
+    expect(interpolator.push("ING} ${OTHER}")).toBe("${MISSING} ${OTHER}");
+    expect(() => interpolator.flush()).toThrow(UnresolvedPlaceholderError);
+    try {
+      interpolator.flush();
+    } catch (error) {
+      expect((error as UnresolvedPlaceholderError).unresolved).toEqual([
+        { key: "MISSING", placeholder: "${MISSING}", path: "", offset: 2 },
+        { key: "OTHER", placeholder: "${OTHER}", path: "", offset: 13 },
+      ]);
+    }
+  });
+
+  it("validates the options upfront", () => {
+    expect(() =>
+      streamInterpolator(variables, { names: "nope" as never }),
+    ).toThrow(TypeError);
+  });
+});
+
+describe("createInterpolationStream", () => {
+  it("interpolates the chunks of a web stream", async () => {
+    const stream = createInterpolationStream(variables);
+    await expect(
+      collect(["Hello ${NA", "ME}, ${MISSING:${A", "}}!"], stream),
+    ).resolves.toBe("Hello Ada, a!");
+  });
+
+  it("errors the stream when resolution fails", async () => {
+    const stream = createInterpolationStream(variables, { strict: true });
+    await expect(collect(["${MISSING}"], stream)).rejects.toThrow(
+      UnresolvedPlaceholderError,
+    );
+  });
+});
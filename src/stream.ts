@@ -0,0 +1,199 @@
+import {
+  UnresolvedPlaceholderError,
+  type UnresolvedPlaceholder,
+} from "./errors.js";
+import {
+  defaults,
+  findNextPlaceholder,
+  nameValidator,
+  parseText,
+  replace,
+  resolveSyntax,
+  toLookup,
+  type InterpolateOptions,
+  type PlaceholderSyntax,
+  type Variables,
+} from "./interpolate.js";
+
+/**
+ * Options for {@link createInterpolationStream}. Intra-document references,
+ * object keys and visitors do not apply to text streams.
+ */
+export interface StreamOptions
+  extends Omit<InterpolateOptions, "references" | "keys" | "visit"> {
+  /**
+   * Longest placeholder, in characters, that may be split across chunks.
+   * Text after an opening token is held back until its closing token arrives;
+   * past this length the opening token is treated as unclosed and stays
+   * literal, which keeps memory bounded. Longer runs of backslashes are
+   * written as they are. Defaults to 65536.
+   */
+  maxPlaceholderLength?: number;
+}
+
+/**
+ * Interpolates text received in chunks. `push` returns the output that is
+ * final so far and `flush` the rest once the input ends.
+ */
+interface StreamInterpolator {
+  push(chunk: string): string;
+  flush(): string;
+}
+
+/**
+ * Finds where the incomplete end of `text` starts: a placeholder that may not
+ * be complete yet, a partial opening token, or up to `maxBackslashes`
+ * backslashes that may escape the next placeholder. Everything before it is
+ * resolved the same way whatever text follows.
+ *
+ * @returns The offset of the incomplete end (`text.length` when there is none),
+ * the offset of its opening token (-1 when there is none) and the offset
+ * following a literal placeholder closing on that token (-1 when there is none).
+ */
+function incompleteEnd(
+  text: string,
+  options: InterpolateOptions,
+  syntax: Required<PlaceholderSyntax>,
+  isName: (name: string) => boolean,
+  maxBackslashes: number,
+): { hold: number; open: number; close: number } {
+  const parsed = { end: text.length, start: text.length, close: -1 };
+  parseText(text, options, syntax, isName, parsed);
+  let hold = parsed.start;
+  const open = parsed.end < text.length ? parsed.end : -1;
+
+  if (open === -1) {
+    // The beginning of an opening token, or half of a surrogate pair
+    const { length } = syntax.open;
+    for (let size = Math.min(length - 1, text.length); size > 0; size--) {
+      if (syntax.open.startsWith(text.slice(-size))) {
+        hold = text.length - size;
+        break;
+      }
+    }
+    const last = text.charCodeAt(hold - 1);
+    if (last >= 0xd800 && last <= 0xdbff) hold--;
+  }
+  const backslashes = Math.max(hold - maxBackslashes, 0);
+  while (hold > backslashes && text[hold - 1] === "\\") hold--;
+  return { hold, open, close: parsed.close };
+}
+
+/**
+ * Creates the chunk-by-chunk interpolation behind the stream factories.
+ * Unresolved placeholders are reported by `flush` in strict mode, with offsets
+ * in the whole output.
+ *
+ * @param variables A variable source or ordered list of sources.
+ * @param options Interpolation options and the placeholder length limit.
+ * @returns The interpolator.
+ * @throws {TypeError} When the `syntax` or `names` option is invalid.
+ */
+function streamInterpolator(
+  variables: Variables,
+  options: StreamOptions,
+): StreamInterpolator {
+  const { maxPlaceholderLength = 65536, ...rest } = options;
+  const interpolateOptions: InterpolateOptions = rest;
+  const syntax = resolveSyntax(options.syntax);
+  const isName = nameValidator(options.names);
+  const lookup = toLookup(variables);
+  const unresolved: UnresolvedPlaceholder[] = [];
+  let pending = "";
+  let written = 0;
+
+  const resolve = (text: string): string => {
+    const found: Array<Omit<UnresolvedPlaceholder, "path">> = [];
+    const out = replace(text, lookup, interpolateOptions, found);
+    for (const match of found) {
+      unresolved.push({ ...match, path: "", offset: written + match.offset });
+    }
+    written += out.length;
+    return out;
+  };
+
+  return {
+    push(chunk) {
+      pending += chunk;
+      let out = "";
+      while (true) {
+        const { hold, open, close } = incompleteEnd(
+          pending,
+          interpolateOptions,
+          syntax,
+          isName,
+          maxPlaceholderLength,
+        );
+        if (open === -1 || pending.length - open <= maxPlaceholderLength) {
+          out += resolve(pending.slice(0, hold));
+          pending = pending.slice(hold);
+          return out;
+        }
+        // Too long to be placeholders: the opening tokens stay literal. They
+        // are all cut off at once, which keeps long inputs linear.
+        let last = open;
+        if (syntax.close) {
+          const unclosed = new Set<number>();
+          findNextPlaceholder(pending, open, syntax, isName, unclosed);
+          for (const offset of unclosed) {
+            if (pending.length - offset > maxPlaceholderLength) {
+              last = Math.max(last, offset);
+            }
+          }
+        }
+        const cut = Math.max(last + 1, close);
+        out += resolve(pending.slice(0, cut));
+        pending = pending.slice(cut);
+      }
+    },
+    flush() {
+      const out = resolve(pending);
+      pending = "";
+      if (options.strict && unresolved.length > 0) {
+        throw new UnresolvedPlaceholderError(unresolved);
+      }
+      return out;
+    },
+  };
+}
+
+/**
+ * Creates a web `TransformStream` interpolating text chunk by chunk, for inputs
+ * too large to hold in memory. Placeholders, nested defaults and escaping
+ * backslashes split across chunks are resolved as if the text was whole, and
+ * only the unfinished end of the text is kept between chunks.
+ *
+ * Decode bytes first (e.g. with `TextDecoderStream`). Errors thrown while
+ * resolving, and {@link UnresolvedPlaceholderError} at the end of the input in
+ * strict mode, error the stream.
+ *
+ * @param variables A variable source or ordered list of sources. Defaults to `process.env`.
+ * @param options Interpolation options and the placeholder length limit.
+ * @returns A stream of strings to strings.
+ * @throws {TypeError} When the `syntax` or `names` option is invalid.
+ *
+ * @example
+ * const response = await fetch('https://example.com/seed.sql');
+ * const seed = response.body
+ *   .pipeThrough(new TextDecoderStream())
+ *   .pipeThrough(createInterpolationStream({ SCHEMA: 'app' }));
+ */
+export function createInterpolationStream(
+  variables: Variables = defaults,
+  options: StreamOptions = {},
+): TransformStream<string, string> {
+  const interpolator = streamInterpolator(variables, options);
+  return new TransformStream({
+    transform(chunk, controller) {
+      const out = interpolator.push(chunk);
+      if (out) controller.enqueue(out);
+    },
+    flush(controller) {
+      const out = interpolator.flush();
+      if (out) controller.enqueue(out);
+    },
+  });
+}
+
+/** @internal */
+export { streamInterpolator };
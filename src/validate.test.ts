@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+
+import { interpolate, listPlaceholders, parse, validate } from "./index.js";
+
+describe("validate", () => {
+  it("returns no diagnostics for well-formed templates", () => {
+    expect(
+      validate({
+        a: "${A} ${B:default} ${C:'${D:x}'} \\${E}",
+        b: ["plain", 1, null],
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports unbalanced braces with their position", () => {
+    expect(validate({ url: "http://${HOST:localhost/${PATH}" })).toEqual([
+      {
+        severity: "error",
+        code: "unbalanced-braces",
+        message: 'Unclosed "${"',
+        path: "url",
+        start: 7,
+        end: 9,
+        loc: { start: { line: 1, column: 7 }, end: { line: 1, column: 9 } },
+      },
+    ]);
+    expect(validate("a\n  ${A ${B}").map((d) => d.loc.start)).toEqual([
+      { line: 2, column: 2 },
+    ]);
+  });
+
+  it("keeps resolving after an unclosed placeholder", () => {
+    expect(
+      interpolate("http://${HOST:localhost/${PATH}", { PATH: "api" }),
+    ).toBe("http://${HOST:localhost/api");
+    expect(interpolate("${A ${B} ${C", { B: "b" })).toBe("${A b ${C");
+  });
+
+  it("recovers from many unclosed placeholders in linear time", () => {
+    // Scanning to the end again for every opening token takes seconds here
+    const opens = "${".repeat(20_000);
+    const lines = "x ${ y ${A}\n".repeat(10_000);
+    const started = performance.now();
+    expect(interpolate(opens, {})).toBe(opens);
+    expect(validate(opens)).toHaveLength(20_000);
+    expect(listPlaceholders(lines)).toHaveLength(1);
+    expect(parse(lines).body).toHaveLength(20_001);
+    expect(interpolate(lines, { A: "a" })).toBe("x ${ y a\n".repeat(10_000));
+    expect(performance.now() - started).toBeLessThan(2000);
+  });
+
+  it("reports invalid names", () => {
+    expect(validate(["${not valid}", "${A-B}"])).toMatchObject([
+      {
+        severity: "warning",
+        code: "invalid-name",
+        message:
+          'Invalid variable name "not valid": ${not valid} is kept as written',
+        path: "[0]",
+        start: 0,
+        end: 12,
+      },
+      { code: "invalid-name", path: "[1]" },
+    ]);
+    expect(validate("${A-B}", { names: "kebab" })).toEqual([]);
+  });
+
+  it("reports empty defaults and unpaired quotes", () => {
+    expect(
+      validate('${A:} ${B:"open} ${C:x\'} ${D:""}').map(
+        ({ code, start, end }) => [code, start, end],
+      ),
+    ).toEqual([
+      ["empty-default", 0, 5],
+      ["mismatched-quotes", 10, 15],
+      ["mismatched-quotes", 21, 23],
+    ]);
+    expect(validate("${A:-}", { posix: true })).toEqual([]);
+  });
+
+  it("reports escapes that do not escape", () => {
+    expect(validate("\\\\${A} \\${B}")).toMatchObject([
+      {
+        code: "suspicious-escape",
+        message:
+          "2 backslashes before ${A} become 1 and the placeholder is still resolved; use an odd number to escape it",
+        start: 0,
+        end: 6,
+      },
+    ]);
+    expect(validate("\\${A}", { escape: false })).toMatchObject([
+      { code: "suspicious-escape", start: 0, end: 5 },
+    ]);
+  });
+
+  it("checks nested defaults", () => {
+    expect(
+      validate("${A:${B:}-${not valid}}").map(({ code, start }) => [
+        code,
+        start,
+      ]),
+    ).toEqual([
+      ["empty-default", 4],
+      ["invalid-name", 10],
+    ]);
+  });
+
+  it("follows the syntax option", () => {
+    expect(validate("{{A}} {{B", { syntax: "mustache" })).toMatchObject([
+      { code: "unbalanced-braces", message: 'Unclosed "{{"', start: 6 },
+    ]);
+    expect(validate("$ $1 $A", { syntax: "bare" })).toEqual([]);
+  });
+});
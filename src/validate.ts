@@ -0,0 +1,225 @@
+import {
+  locator,
+  parse,
+  print,
+  type ContentNode,
+  type ParseOptions,
+  type SourcePosition,
+} from "./ast.js";
+import {
+  findNextPlaceholder,
+  formatPath,
+  nameValidator,
+  parsePlaceholder,
+  resolveSyntax,
+  traverse,
+  type Input,
+} from "./interpolate.js";
+
+/**
+ * How serious a {@link Diagnostic} is: errors break the template, warnings
+ * point at text that is probably not doing what was meant.
+ */
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * Kind of problem reported by {@link validate}:
+ * - `"unbalanced-braces"`: an opening token is never closed
+ * - `"invalid-name"`: a placeholder is kept as written because of its name
+ * - `"empty-default"`: `${NAME:}` keeps the placeholder instead of producing
+ *   an empty string
+ * - `"mismatched-quotes"`: a default starts or ends with an unpaired quote
+ * - `"suspicious-escape"`: backslashes before a placeholder do not escape it
+ */
+export type DiagnosticCode =
+  | "unbalanced-braces"
+  | "invalid-name"
+  | "empty-default"
+  | "mismatched-quotes"
+  | "suspicious-escape";
+
+/**
+ * A problem found by {@link validate}. Offsets, lines and columns are relative
+ * to the string at `path`.
+ */
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  /** Path of the string (`""` for a root string). */
+  path: string;
+  /** Offsets of the problem in the string (`end` is exclusive). */
+  start: number;
+  end: number;
+  /** Lines (from 1) and columns (from 0) of the problem. */
+  loc: { start: SourcePosition; end: SourcePosition };
+}
+
+// Quotes a default may be wrapped in
+const QUOTES = new Set(['"', "'"]);
+
+/**
+ * Checks every string of a structure for malformed or suspicious placeholders
+ * without resolving anything. Problems do not stop {@link interpolate}: an
+ * unclosed opening token stays literal and the placeholders after it are still
+ * resolved, but the result is rarely what was meant.
+ *
+ * @param content The input to check. May be a string, array, or object graph.
+ * @param options Syntax options matching the ones used to interpolate.
+ * @returns The problems found, string by string in traversal order.
+ * @throws {TypeError} When the `syntax` or `names` option is invalid.
+ *
+ * @example
+ * validate({ url: 'http://${HOST:localhost/${PATH}' });
+ * // Returns: [{
+ * //   severity: 'error',
+ * //   code: 'unbalanced-braces',
+ * //   message: 'Unclosed "${"',
+ * //   path: 'url',
+ * //   start: 7,
+ * //   end: 9,
+ * //   loc: { start: { line: 1, column: 7 }, end: { line: 1, column: 9 } },
+ * // }]
+ */
+export function validate(
+  content: Input,
+  options: ParseOptions = {},
+): Diagnostic[] {
+  const { escape = true, posix = false } = options;
+  const syntax = resolveSyntax(options.syntax);
+  const isName = nameValidator(options.names);
+  const diagnostics: Diagnostic[] = [];
+
+  traverse(content, (str, path) => {
+    const at = locator(str);
+    const found: Diagnostic[] = [];
+    const report = (
+      severity: DiagnosticSeverity,
+      code: DiagnosticCode,
+      message: string,
+      start: number,
+      end: number,
+    ) => {
+      found.push({
+        severity,
+        code,
+        message,
+        path: formatPath(path),
+        ...at(start, end),
+      });
+    };
+
+    // Checks nodes parsed from str.slice(from, to)
+    const visit = (nodes: ContentNode[], from: number, to: number) => {
+      const text = str.slice(from, to);
+      const unclosed = new Set<number>();
+      nodes.forEach((node, index) => {
+        const next = nodes[index + 1];
+        switch (node.type) {
+          case "Text": {
+            if (
+              !escape &&
+              node.value.endsWith("\\") &&
+              next?.type === "Placeholder"
+            ) {
+              report(
+                "warning",
+                "suspicious-escape",
+                `Escaping is disabled: the backslash before ${print(next)} is kept and the placeholder is resolved`,
+                node.end - 1,
+                next.end,
+              );
+            }
+            // Without closing token, every placeholder is well formed
+            if (!syntax.close) break;
+            const { open } = syntax;
+            for (
+              let i = node.value.indexOf(open);
+              i !== -1;
+              i = node.value.indexOf(open, i + 1)
+            ) {
+              const offset = node.start - from + i;
+              const match = unclosed.has(offset)
+                ? null
+                : findNextPlaceholder(text, offset, syntax, isName, unclosed);
+              if (match?.start === offset) {
+                const { key } = parsePlaceholder(
+                  match.inner,
+                  options,
+                  syntax,
+                  isName,
+                );
+                report(
+                  "warning",
+                  "invalid-name",
+                  `Invalid variable name "${key}": ${match.full} is kept as written`,
+                  from + offset,
+                  from + match.end + 1,
+                );
+              } else {
+                report(
+                  "error",
+                  "unbalanced-braces",
+                  `Unclosed "${open}"`,
+                  from + offset,
+                  from + offset + open.length,
+                );
+              }
+            }
+            break;
+          }
+          case "Escape":
+            // An even number of backslashes only produces backslashes
+            if (
+              node.raw === "\\".repeat(node.raw.length) &&
+              next?.type === "Placeholder"
+            ) {
+              report(
+                "warning",
+                "suspicious-escape",
+                `${node.raw.length} backslashes before ${print(next)} become ${node.value.length} and the placeholder is still resolved; use an odd number to escape it`,
+                node.start,
+                next.end,
+              );
+            }
+            break;
+          case "Placeholder": {
+            const word = node.default;
+            if (!word) break;
+            const raw = print(word);
+            if (node.operator === ":" && !posix && raw === "") {
+              report(
+                "warning",
+                "empty-default",
+                `Empty default for ${node.key} keeps the placeholder when it is not set; quote it ("") for an empty string`,
+                node.start,
+                node.end,
+              );
+            }
+            if (
+              !word.quote &&
+              (QUOTES.has(raw[0]) || QUOTES.has(raw.at(-1) ?? ""))
+            ) {
+              report(
+                "warning",
+                "mismatched-quotes",
+                `Unpaired quote in the default of ${node.key}: it is used as written`,
+                word.start,
+                word.end,
+              );
+            }
+            const quote = word.quote ? 1 : 0;
+            visit(word.body, word.start + quote, word.end - quote);
+            break;
+          }
+        }
+      });
+    };
+
+    visit(parse(str, options).body, 0, str.length);
+    diagnostics.push(...found.sort((a, b) => a.start - b.start));
+    return str;
+  });
+
+  return diagnostics;
+}
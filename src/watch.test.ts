@@ -0,0 +1,184 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { CycleError, UnresolvedPlaceholderError } from "./errors.js";
+import {
+  createVariableStore,
+  watchInterpolation,
+  type InterpolationChange,
+  type WatchableSource,
+} from "./index.js";
+
+describe("createVariableStore", () => {
+  it("notifies listeners once with the changed variables", () => {
+    const store = createVariableStore({ A: "1", B: "2" });
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.set({ A: "1", B: "3", C: "4" });
+    expect(listener).toHaveBeenCalledExactlyOnceWith(["B", "C"]);
+    store.set({ A: "1" });
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    store.replace({ A: "1", C: "5" });
+    expect(listener).toHaveBeenLastCalledWith(["B", "C"]);
+    expect(store.get("B")).toBeUndefined();
+    expect(store.get("C")).toBe("5");
+
+    unsubscribe();
+    store.set({ A: "2" });
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("watchInterpolation", () => {
+  const config = {
+    db: { url: "postgres://${DB_HOST}:${DB_PORT:5432}/app" },
+    cache: "${CACHE_URL:redis://${DB_HOST}}",
+    name: "${APP}",
+    static: "plain",
+  };
+
+  it("interpolates the content", () => {
+    const store = createVariableStore({ DB_HOST: "localhost", APP: "api" });
+    expect(watchInterpolation(config, store).value).toEqual({
+      db: { url: "postgres://localhost:5432/app" },
+      cache: "redis://localhost",
+      name: "api",
+      static: "plain",
+    });
+  });
+
+  it("reports the strings whose result changed", () => {
+    const store = createVariableStore({ DB_HOST: "localhost", APP: "api" });
+    const watcher = watchInterpolation(config, store);
+    const changes: InterpolationChange[] = [];
+    watcher.subscribe((change) => changes.push(change));
+
+    store.set({ DB_HOST: "db" });
+    expect(changes).toEqual([
+      {
+        path: "db.url",
+        oldValue: "postgres://localhost:5432/app",
+        newValue: "postgres://db:5432/app",
+      },
+      { path: "cache", oldValue: "redis://localhost", newValue: "redis://db" },
+    ]);
+    expect(watcher.value).toEqual({
+      db: { url: "postgres://db:5432/app" },
+      cache: "redis://db",
+      name: "api",
+      static: "plain",
+    });
+  });
+
+  it("only interpolates the strings using the changed variables", () => {
+    const values = new Map([
+      ["DB_HOST", "localhost"],
+      ["APP", "api"],
+    ]);
+    let notify: (keys: string[]) => void = () => {};
+    const source: WatchableSource = {
+      get: vi.fn((key: string) => values.get(key)),
+      subscribe(listener) {
+        notify = listener;
+        return () => {};
+      },
+    };
+    const watcher = watchInterpolation(config, source);
+    vi.mocked(source.get).mockClear();
+
+    values.set("APP", "worker");
+    notify(["APP"]);
+    expect(vi.mocked(source.get).mock.calls).toEqual([["APP"]]);
+    expect(watcher.value.name).toBe("worker");
+  });
+
+  it("follows dependencies through variable values and defaults", () => {
+    const store = createVariableStore({ DB_HOST: "localhost" });
+    const watcher = watchInterpolation(config, store);
+    const listener = vi.fn();
+    watcher.subscribe(listener);
+
+    // Once CACHE_URL is set, the default using DB_HOST is no longer used
+    store.set({ CACHE_URL: "redis://${REDIS_HOST}" });
+    expect(listener).toHaveBeenLastCalledWith({
+      path: "cache",
+      oldValue: "redis://localhost",
+      newValue: "redis://${REDIS_HOST}",
+    });
+    store.set({ REDIS_HOST: "redis" });
+    expect(watcher.value.cache).toBe("redis://redis");
+    listener.mockClear();
+    store.set({ DB_HOST: "db" });
+    expect(listener).toHaveBeenCalledExactlyOnceWith(
+      expect.objectContaining({ path: "db.url" }),
+    );
+  });
+
+  it("ignores changes that do not change any result", () => {
+    const store = createVariableStore({ DB_PORT: "5432", UNUSED: "1" });
+    const watcher = watchInterpolation(config, store);
+    const listener = vi.fn();
+    watcher.subscribe(listener);
+    const { value } = watcher;
+
+    store.set({ UNUSED: "2" });
+    store.set({ DB_PORT: undefined });
+    expect(listener).not.toHaveBeenCalled();
+    expect(watcher.value).toEqual(value);
+  });
+
+  it("compares filter results by value", () => {
+    const store = createVariableStore({ FLAGS: '{"beta":true}', OTHER: "1" });
+    const watcher = watchInterpolation(
+      { flags: "${FLAGS|json}", both: "${FLAGS}${OTHER}" },
+      store,
+      { coerce: true },
+    );
+    const listener = vi.fn();
+    watcher.subscribe(listener);
+
+    store.set({ FLAGS: '{ "beta": true }' });
+    expect(listener).toHaveBeenCalledExactlyOnceWith({
+      path: "both",
+      oldValue: '{"beta":true}1',
+      newValue: '{ "beta": true }1',
+    });
+  });
+
+  it("keeps the previous value when interpolating fails", () => {
+    const store = createVariableStore({ A: "a" });
+    const onError = vi.fn();
+    const watcher = watchInterpolation({ a: "${A}" }, store, { onError });
+
+    store.set({ A: "${B}", B: "${A}" });
+    expect(onError).toHaveBeenCalledWith(expect.any(CycleError));
+    expect(watcher.value).toEqual({ a: "a" });
+
+    const strict = watchInterpolation({ a: "${A}" }, createVariableStore());
+    expect(strict.value).toEqual({ a: "${A}" });
+    expect(() =>
+      watchInterpolation({ a: "${A}" }, createVariableStore(), {
+        strict: true,
+      }),
+    ).toThrow(UnresolvedPlaceholderError);
+  });
+
+  it("throws errors to the code changing the source without onError", () => {
+    const store = createVariableStore({ A: "a" });
+    watchInterpolation({ a: "${A}" }, store);
+    expect(() => store.set({ A: "${A}" })).toThrow(CycleError);
+  });
+
+  it("stops watching once closed", () => {
+    const store = createVariableStore({ APP: "api" });
+    const watcher = watchInterpolation(config, store);
+    const listener = vi.fn();
+    watcher.subscribe(listener);
+
+    watcher.close();
+    store.set({ APP: "worker" });
+    expect(listener).not.toHaveBeenCalled();
+    expect(watcher.value.name).toBe("api");
+  });
+});
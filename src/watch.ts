@@ -0,0 +1,258 @@
+import {
+  interpolateWith,
+  type Input,
+  type InterpolateOptions,
+  type TrackedString,
+} from "./interpolate.js";
+
+/**
+ * A source of variables that tells when they change, such as the store
+ * returned by {@link createVariableStore}.
+ */
+export interface WatchableSource {
+  /** Returns the current value of a variable, or `undefined` when it is not set. */
+  get(key: string): string | undefined;
+  /**
+   * Registers a listener called with the names of the variables that changed.
+   * Returns a function removing the listener.
+   */
+  subscribe(listener: (keys: string[]) => void): () => void;
+}
+
+/**
+ * A {@link WatchableSource} holding variables in memory.
+ */
+export interface VariableStore extends WatchableSource {
+  /**
+   * Sets some variables, leaving the others as they are. `undefined` removes
+   * a variable. Listeners are called once with the variables whose value
+   * changed.
+   */
+  set(changes: Record<string, string | undefined>): void;
+  /**
+   * Replaces every variable, e.g. with the new content of a reloaded `.env`
+   * file. Listeners are called once with the variables whose value changed.
+   */
+  replace(values: Record<string, string | undefined>): void;
+}
+
+/**
+ * Options for {@link watchInterpolation}. Intra-document references and object
+ * keys are not supported, as they would move values between paths.
+ */
+export interface WatchOptions
+  extends Omit<InterpolateOptions, "references" | "keys"> {
+  /**
+   * Called when interpolating after a change fails, e.g. with a
+   * {@link CycleError}. The watcher then keeps its previous value. Without
+   * it, the error is thrown to the code that changed the source.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * A string whose result changed, as reported by {@link watchInterpolation}.
+ */
+export interface InterpolationChange {
+  /** Path of the string (`""` for a root string). */
+  path: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+/**
+ * An interpolation kept up to date by {@link watchInterpolation}.
+ */
+export interface InterpolationWatcher<T> {
+  /** The current interpolated value. A new value is built on every change. */
+  readonly value: T;
+  /**
+   * Registers a listener called for every string whose result changed, once
+   * {@link InterpolationWatcher.value} is updated. Returns a function removing
+   * the listener.
+   */
+  subscribe(listener: (change: InterpolationChange) => void): () => void;
+  /** Stops watching the source and removes every listener. */
+  close(): void;
+}
+
+/**
+ * Creates an in-memory variable store to use with {@link watchInterpolation}.
+ *
+ * @param initial The initial variables.
+ * @returns The store.
+ *
+ * @example
+ * const store = createVariableStore({ PORT: '3000' });
+ * store.set({ PORT: '8080' });
+ * store.get('PORT');
+ * // Returns: '8080'
+ */
+export function createVariableStore(
+  initial: Record<string, string | undefined> = {},
+): VariableStore {
+  const values = new Map<string, string>();
+  const listeners = new Set<(keys: string[]) => void>();
+
+  const set = (changes: Record<string, string | undefined>) => {
+    const changed: string[] = [];
+    for (const [key, value] of Object.entries(changes)) {
+      if (values.get(key) === value) continue;
+      if (value === undefined) values.delete(key);
+      else values.set(key, value);
+      changed.push(key);
+    }
+    if (changed.length === 0) return;
+    for (const listener of [...listeners]) listener(changed);
+  };
+
+  set(initial);
+  return {
+    get: (key) => values.get(key),
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    set,
+    replace(next) {
+      const removed = [...values.keys()].filter(
+        (key) => !Object.hasOwn(next, key),
+      );
+      set({
+        ...Object.fromEntries(removed.map((key) => [key, undefined])),
+        ...next,
+      });
+    },
+  };
+}
+
+/**
+ * Tells whether two results of the same string are equal.
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  // Results of filters such as `json` are rebuilt on every interpolation
+  return (
+    typeof a === "object" &&
+    typeof b === "object" &&
+    a !== null &&
+    b !== null &&
+    JSON.stringify(a) === JSON.stringify(b)
+  );
+}
+
+/**
+ * Interpolates a structure and keeps it up to date as the variables of
+ * `source` change, for long-running processes that reload their
+ * configuration.
+ *
+ * Every string records the variables it used, nested variables and defaults
+ * included. When variables change, only the strings using them are
+ * interpolated again; the others keep their result. Subscribers then receive
+ * one event per string whose result changed.
+ *
+ * @param content The input to process. May be a string, array, or object graph.
+ * @param source The variables to watch, such as a {@link createVariableStore} store.
+ * @param options Interpolation options and an error handler.
+ * @returns The watcher, holding the current value.
+ * @throws {UnresolvedPlaceholderError} In strict mode, when any placeholder cannot be resolved.
+ *
+ * @example
+ * const store = createVariableStore({ DB_HOST: 'localhost' });
+ * const watcher = watchInterpolation({ db: { url: 'postgres://${DB_HOST}/app' } }, store);
+ *
+ * watcher.subscribe(({ path, oldValue, newValue }) => {
+ *   console.log(`${path}: ${oldValue} -> ${newValue}`);
+ * });
+ * store.set({ DB_HOST: 'db.internal' });
+ * // Logs: db.url: postgres://localhost/app -> postgres://db.internal/app
+ */
+export function watchInterpolation<T extends Input>(
+  content: T,
+  source: WatchableSource,
+  options: WatchOptions = {},
+): InterpolationWatcher<T> {
+  const { onError, ...interpolateOptions } = options;
+  const lookup = (key: string) => source.get(key);
+  const listeners = new Set<(change: InterpolationChange) => void>();
+  // Paths of the strings using each variable
+  const users = new Map<string, Set<string>>();
+
+  const index = (path: string, variables: Iterable<string>, add: boolean) => {
+    for (const key of variables) {
+      let paths = users.get(key);
+      if (!paths) {
+        if (!add) continue;
+        paths = new Set();
+        users.set(key, paths);
+      }
+      if (add) paths.add(path);
+      else paths.delete(path);
+    }
+  };
+
+  let strings = new Map<string, TrackedString>();
+  let value = interpolateWith(content, lookup, interpolateOptions, {
+    tracked: strings,
+  });
+  for (const [path, { variables }] of strings) index(path, variables, true);
+
+  const update = (keys: string[]) => {
+    const affected = new Set<string>();
+    for (const key of keys) {
+      for (const path of users.get(key) ?? []) affected.add(path);
+    }
+    if (affected.size === 0) return;
+
+    const reuse = new Map(strings);
+    for (const path of affected) reuse.delete(path);
+    const tracked = new Map<string, TrackedString>();
+    let next: T;
+    try {
+      next = interpolateWith(content, lookup, interpolateOptions, {
+        tracked,
+        reuse,
+      });
+    } catch (error) {
+      if (!onError) throw error;
+      onError(error);
+      return;
+    }
+
+    const changes: InterpolationChange[] = [];
+    for (const path of affected) {
+      const before = strings.get(path);
+      const after = tracked.get(path);
+      if (!before || !after) continue;
+      index(path, before.variables, false);
+      index(path, after.variables, true);
+      if (!sameValue(before.value, after.value)) {
+        changes.push({ path, oldValue: before.value, newValue: after.value });
+      }
+    }
+    strings = tracked;
+    value = next;
+    for (const change of changes) {
+      for (const listener of [...listeners]) listener(change);
+    }
+  };
+
+  const unsubscribe = source.subscribe(update);
+  return {
+    get value() {
+      return value;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close() {
+      unsubscribe();
+      listeners.clear();
+    },
+  };
+}
@@ -1,11 +1,12 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: ["src/index.ts", "src/node.ts", "src/bin.ts"],
   outDir: "dist",
   format: ["esm", "cjs"],
   target: "node18",
-  splitting: false,
+  // Share the engine between entry points so error classes keep one identity
+  splitting: true,
   sourcemap: true,
   clean: true,
   dts: true,